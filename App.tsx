@@ -1,17 +1,48 @@
 
-import React, { useState, useEffect } from 'react';
-import { PropertyDetails, ImageFile, SearchResponse, SavedSearch } from './types';
-import { searchPropertyVideos, generatePromotionalVideo } from './services/geminiService';
+import React, { useState, useEffect, useRef } from 'react';
+import { PropertyDetails, ImageFile, SearchResponse, SavedSearch, ListingVideoOptions, VisualMatchVerdict, VideoSearchResult, SearchProgress, BulkSearchRow, SearchDiff, WatchAlert, VideoJob } from './types';
+import { startPromotionalVideo, startListingVideo, listingVideoTitle } from './services/geminiClient';
+import { searchVideos } from './services/videoSearchService';
+import { canonicalVideoKey, dedupeVideos } from './services/videoUrl';
+import { withThumbnails, fetchImageAsDataUrl } from './services/thumbnails';
+import { fromSerializableImage } from './services/savedImages';
+import { runDueWatchChecks, setWatch, WATCH_INTERVAL_OPTIONS } from './services/watchlist';
+import { browserWatchStore, listAlerts, markAlertsRead } from './services/watchStore';
+import { verifyVideoLinks } from './services/linkCheck';
+import { isAbortError } from './services/abort';
+import { describeError } from './services/errors';
+import { CachedSearch, buildCacheKey, getCachedSearch, saveCachedSearch } from './services/searchCache';
+import { diffSearchResults, applySearchDiff, recheckMissingVideos } from './services/searchDiff';
+import { createLocalVideoJobStore, createVideoJobManager, isJobForProperty, VideoJobManager } from './services/videoJobs';
 import { auth, db, googleProvider } from './services/firebase';
+import { SearchPage, createDeviceSearchRepository, searchRepository } from './services/searchRepository';
+import { importGuestSearches } from './services/guestImport';
+import { STORAGE_FULL_MESSAGE, STORAGE_WARNING_RATIO, StorageUsage, formatBytes, getStorageUsage, isQuotaExceededError } from './services/storageQuota';
+import { isLocalVideo, withoutLocalVideos } from './services/slideshowComposer';
 import firebase from 'firebase/compat/app';
-import { collection, addDoc, query, where, orderBy, getDocs, Timestamp, deleteDoc, updateDoc, doc } from 'firebase/firestore';
 import { jsPDF } from 'jspdf';
 import ImageUpload from './components/ImageUpload';
 import VideoResult from './components/VideoResult';
+import ListingVideoGenerator from './components/ListingVideoGenerator';
+import VideoPlayerModal from './components/VideoPlayerModal';
+import SearchProgressSteps from './components/SearchProgressSteps';
+import BulkSearchModal from './components/BulkSearchModal';
+import SearchRefreshModal from './components/SearchRefreshModal';
+import AlertInboxModal from './components/AlertInboxModal';
+import SlideshowComposer from './components/SlideshowComposer';
+import SocialExportModal from './components/SocialExportModal';
+import VideoJobsModal from './components/VideoJobsModal';
+import SavedSearchFilters, { DEFAULT_SAVED_SEARCH_FILTERS, SavedSearchFilterValues, hasActiveFilters, toSavedSearchQuery } from './components/SavedSearchFilters';
+
+const HISTORY_PAGE_SIZE = 25;
+// The API server refuses Veo for anonymous guests, so say so before a request is made
+const GUEST_VEO_MESSAGE = "Sign in with Google to generate videos.";
 
 function App() {
   // Auth State
   const [user, setUser] = useState<firebase.User | any | null>(null);
+  // Linking a guest to Google changes the same user object in place; bumped to re-render
+  const [, setAuthRevision] = useState(0);
   
   // State for form inputs
   const [address, setAddress] = useState({ street: '', city: '', state: '', zip: '' });
@@ -22,7 +53,15 @@ function App() {
   // State for UI interaction
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [errorRetryable, setErrorRetryable] = useState(false);
   const [results, setResults] = useState<SearchResponse | null>(null);
+  const [searchProgress, setSearchProgress] = useState<SearchProgress | null>(null);
+  const searchAbortRef = useRef<AbortController | null>(null);
+
+  // Result Cache State: a fresh cached search waiting for "use cached" / "search fresh",
+  // and the cached search currently shown in the results panel
+  const [cacheOffer, setCacheOffer] = useState<{ entry: CachedSearch; details: PropertyDetails } | null>(null);
+  const [cachedResults, setCachedResults] = useState<{ entry: CachedSearch; details: PropertyDetails } | null>(null);
 
   // Help/History Modal State
   const [showHelp, setShowHelp] = useState(false);
@@ -30,6 +69,13 @@ function App() {
   const [historyList, setHistoryList] = useState<SavedSearch[]>([]);
   const [loadingHistory, setLoadingHistory] = useState(false);
   const [historyError, setHistoryError] = useState<string | null>(null);
+  const [historyFilters, setHistoryFilters] = useState<SavedSearchFilterValues>(DEFAULT_SAVED_SEARCH_FILTERS);
+  const [historyNextPage, setHistoryNextPage] = useState<SearchPage['next']>(null);
+  const [loadingMoreHistory, setLoadingMoreHistory] = useState(false);
+  // Bumped per list request, so a slow page for old filters can't replace newer results
+  const historyRequestRef = useRef(0);
+  // Guest saves live in this browser's storage; shown so people see a full disk coming
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
 
   // Edit History State
   const [editingId, setEditingId] = useState<string | null>(null);
@@ -41,6 +87,47 @@ function App() {
   const [videoError, setVideoError] = useState<string | null>(null);
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle');
 
+  // Listing Video Generation State
+  const [generatingListingVideo, setGeneratingListingVideo] = useState(false);
+  const [listingVideoError, setListingVideoError] = useState<string | null>(null);
+
+  // Veo jobs, persisted so a reload doesn't lose a paid generation
+  const [videoJobs, setVideoJobs] = useState<VideoJob[]>([]);
+  const [showVideoJobs, setShowVideoJobs] = useState(false);
+  const jobManagerRef = useRef<VideoJobManager | null>(null);
+  // Read by the job manager when a clip finishes, long after the callback was created
+  const currentPropertyRef = useRef<PropertyDetails>({ ...address, mlsNumber });
+  currentPropertyRef.current = { ...address, mlsNumber };
+
+  // Results filter on the visual verification verdict
+  const [visualFilter, setVisualFilter] = useState<VisualMatchVerdict | 'all'>('all');
+
+  // In-app Player State (index into results.videos)
+  const [playerIndex, setPlayerIndex] = useState<number | null>(null);
+  const [exportVideo, setExportVideo] = useState<VideoSearchResult | null>(null);
+
+  // Bulk Search State
+  const [showBulkSearch, setShowBulkSearch] = useState(false);
+
+  // Refresh State: re-running a saved search and reviewing what changed
+  const [refreshState, setRefreshState] = useState<{
+    item: SavedSearch;
+    progress: SearchProgress | null;
+    diff: SearchDiff | null;
+    error: string | null;
+    applying: boolean;
+  } | null>(null);
+  const refreshAbortRef = useRef<AbortController | null>(null);
+  // Bumped per opened saved search, so slow photo downloads don't land on a newer one
+  const savedImagesRequestRef = useRef(0);
+
+  // Link Verification State (across history)
+  const [linkCheckProgress, setLinkCheckProgress] = useState<{ done: number; total: number } | null>(null);
+
+  // Watchlist Alerts State
+  const [alerts, setAlerts] = useState<WatchAlert[]>([]);
+  const [showAlerts, setShowAlerts] = useState(false);
+
   // Merge State
   const [mergeSourceId, setMergeSourceId] = useState<string | null>(null);
   const [showMergeModal, setShowMergeModal] = useState(false);
@@ -55,21 +142,139 @@ function App() {
     }
   }, []);
 
+  // Watchlist: load the alert inbox and check due watched searches while the app is open.
+  // The Node worker (server/watchWorker.ts) does the same for a local store without a browser.
+  useEffect(() => {
+    if (!user?.uid) return;
+    const userId = user.uid;
+    const controller = new AbortController();
+    let running = false;
+
+    listAlerts(userId)
+      .then(items => { if (!controller.signal.aborted) setAlerts(items); })
+      .catch(err => console.error("Error loading alerts:", err));
+
+    const checkWatchlist = async () => {
+      if (running) return;
+      running = true;
+      try {
+        const created = await runDueWatchChecks(browserWatchStore, { userId, signal: controller.signal });
+        if (created.length > 0 && !controller.signal.aborted) setAlerts(prev => [...created, ...prev]);
+      } catch (err) {
+        if (!isAbortError(err)) console.error("Watchlist check failed:", err);
+      } finally {
+        running = false;
+      }
+    };
+
+    checkWatchlist();
+    const intervalId = setInterval(checkWatchlist, 5 * 60 * 1000);
+    return () => {
+      clearInterval(intervalId);
+      controller.abort();
+    };
+  }, [user?.uid]);
+
+  // Free a slideshow's blob: URL once it's gone from the results (deleted, new search, reset)
+  const slideshowUrisRef = useRef<Set<string>>(new Set());
+  useEffect(() => {
+    const current = new Set((results?.videos || []).filter(isLocalVideo).map(video => video.uri));
+    slideshowUrisRef.current.forEach(uri => { if (!current.has(uri)) URL.revokeObjectURL(uri); });
+    slideshowUrisRef.current = current;
+  }, [results]);
+
+  // Resume polling any Veo jobs this account left running on an earlier visit
+  useEffect(() => {
+    if (!user?.uid) {
+      setVideoJobs([]);
+      return;
+    }
+    const manager = createVideoJobManager({
+      store: createLocalVideoJobStore(user.uid),
+      onChange: setVideoJobs,
+      onComplete: (job) => {
+        if (!job.result) return;
+        if (job.kind === 'promo') setPromoVideoUrl(job.result.uri);
+        else if (isJobForProperty(job, currentPropertyRef.current)) attachGeneratedVideo(job.result);
+      }
+    });
+    jobManagerRef.current = manager;
+    manager.start();
+    return () => {
+      manager.stop();
+      jobManagerRef.current = null;
+    };
+  }, [user?.uid]);
+
+  // Bring searches made as a guest into the account just signed in to
+  const importGuestHistory = async (searches: SavedSearch[], account: firebase.User, onImported?: (search: SavedSearch) => Promise<void>) => {
+    if (searches.length === 0) return;
+    const result = await importGuestSearches(searches, searchRepository, {
+      userId: account.uid,
+      ownerEmail: account.email,
+      resolveDuplicates: (titles) => window.confirm(
+          `${titles.length} of your guest searches share a name with searches in your account (${titles.slice(0, 3).join(', ')}${titles.length > 3 ? ', ...' : ''}).\n\n` +
+          `Click OK to MERGE their videos into the searches in your account.\n` +
+          `Click Cancel to keep them as separate searches marked "(Guest)".`
+      ) ? 'merge' : 'rename',
+      onImported
+    });
+    const moved = result.imported + result.merged;
+    if (result.failed > 0) {
+      alert(`Moved ${moved} of ${searches.length} guest searches into your account. Check the console for details.`);
+    } else {
+      alert(`Moved ${moved} guest search${moved === 1 ? '' : 'es'} into your account.`);
+    }
+  };
+
+  // Searches saved on this device while Firebase wasn't available (device-only guests)
+  const importDeviceSearches = async (account: firebase.User) => {
+    if (!db) return; // Device storage is where this user's searches live anyway
+    const device = createDeviceSearchRepository();
+    const searches = await device.listAll();
+    const withImages = await Promise.all(searches.map(async search => ({ ...search, ...await device.loadImages(search) })));
+    await importGuestHistory(withImages, account, search => device.delete(search.id!));
+  };
+
+  // Linking keeps the guest's uid, so everything they saved is already in the account.
+  // If the Google account exists already, the searches are copied over instead; the
+  // originals stay with the abandoned anonymous user, since only it may delete them.
+  const signInFromGuest = async (guest: firebase.User): Promise<firebase.User | null> => {
+    try {
+      const { user: account } = await guest.linkWithPopup(googleProvider!);
+      setAuthRevision(revision => revision + 1);
+      return account;
+    } catch (err: any) {
+      if (err?.code !== 'auth/credential-already-in-use' || !err.credential) throw err;
+      const searches = await searchRepository.listOwned(guest.uid);
+      const withImages = await Promise.all(searches.map(async search => ({ ...search, ...await searchRepository.loadImages(search) })));
+      const { user: account } = await auth!.signInWithCredential(err.credential);
+      if (account) await importGuestHistory(withImages, account);
+      return account;
+    }
+  };
+
   const handleLogin = async () => {
     setError(null);
     if (auth && googleProvider) {
       try {
         // Force account selection to allow switching accounts
         googleProvider.setCustomParameters({ prompt: 'select_account' });
-        await auth.signInWithPopup(googleProvider);
+        const account = auth.currentUser?.isAnonymous
+          ? await signInFromGuest(auth.currentUser)
+          : (await auth.signInWithPopup(googleProvider)).user;
+        if (account) await importDeviceSearches(account);
       } catch (err: any) {
         setError("Login failed: " + err.message);
       }
     } else {
-      // Fallback to Guest Mode if Firebase is not configured
+      // Fallback to Guest Mode if Firebase is not configured.
+      // One uid per browser, so the guest's history is still there next visit.
       console.log("Firebase not configured. Using Guest Mode.");
+      const guestUid = localStorage.getItem('re_app_guest_uid') || 'guest-' + Date.now();
+      localStorage.setItem('re_app_guest_uid', guestUid);
       const guestUser = {
-        uid: 'guest-' + Date.now(),
+        uid: guestUid,
         displayName: 'Guest User',
         email: 'guest@demo.com',
         photoURL: null,
@@ -79,12 +284,34 @@ function App() {
     }
   };
 
+  // Firebase anonymous auth: a real (if nameless) account, so guest saves use Firestore
+  // and can be linked to Google later
+  const handleGuestLogin = async () => {
+    setError(null);
+    if (!auth) return;
+    try {
+      await auth.signInAnonymously();
+    } catch (err: any) {
+      setError(err.code === 'auth/operation-not-allowed' || err.code === 'auth/admin-restricted-operation'
+        ? "Guest access isn't enabled for this site. Please sign in with Google."
+        : "Guest sign-in failed: " + err.message);
+    }
+  };
+
   const handleLogout = async () => {
+    if (auth && user?.isAnonymous && !window.confirm(
+        "Signing out of guest mode loses access to its saved searches for good.\n\n" +
+        "Sign in with Google first to keep them. Sign out anyway?"
+    )) {
+      return;
+    }
     if (auth) {
       await auth.signOut();
     }
     setUser(null);
     setHistoryList([]);
+    setHistoryNextPage(null);
+    setAlerts([]);
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -157,61 +384,109 @@ function App() {
         return;
     }
 
+    const propertyDetails: PropertyDetails = { ...address, mlsNumber };
+    // Hashing photos can take a moment, so show the spinner while the cache is checked
+    setLoading(true);
+    let cacheKey: string | null = null;
+    let cached: CachedSearch | null = null;
+    try {
+      cacheKey = await buildCacheKey(propertyDetails, frontImage, backImage);
+      cached = await getCachedSearch(cacheKey, user?.uid);
+    } catch (e) {
+      // e.g. crypto.subtle is missing outside secure contexts; search without the cache
+      console.warn("Search cache lookup failed:", e);
+    }
+    if (cached) {
+      // Let the user choose between the cached results and a fresh search
+      setLoading(false);
+      setError(null);
+      setResults(null);
+      setCachedResults(null);
+      setCacheOffer({ entry: cached, details: propertyDetails });
+      return;
+    }
+
+    await runSearch(propertyDetails, cacheKey);
+  };
+
+  const runSearch = async (propertyDetails: PropertyDetails, cacheKey: string | null) => {
     setLoading(true);
     setError(null);
+    setErrorRetryable(false);
+    setCacheOffer(null);
+    setCachedResults(null);
     setResults(null);
+    setPlayerIndex(null);
+    setVisualFilter('all');
     setSaveStatus('idle');
+    setListingVideoError(null);
+
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
+    setSearchProgress({ stage: 'querying', message: "Starting search..." });
 
     try {
-      const propertyDetails: PropertyDetails = { ...address, mlsNumber };
-      const response = await searchPropertyVideos(propertyDetails, frontImage, backImage);
+      const response = await searchVideos(propertyDetails, frontImage, backImage, {
+        signal: controller.signal,
+        onProgress: (progress) => {
+          if (controller.signal.aborted) return;
+          setSearchProgress(progress);
+          // Stream partial results into the panel while later stages run
+          if (progress.partial) setResults(progress.partial);
+        }
+      });
       setResults(response);
+      if (cacheKey) saveCachedSearch(cacheKey, response, user?.uid);
     } catch (err: any) {
-      setError(err.message || "An unexpected error occurred.");
+      // Cancelling keeps whatever partial results already streamed in
+      if (!isAbortError(err) && !controller.signal.aborted) {
+        const { message, retryable } = describeError(err);
+        setError(message);
+        setErrorRetryable(retryable);
+      }
     } finally {
+      if (searchAbortRef.current === controller) searchAbortRef.current = null;
+      setSearchProgress(null);
       setLoading(false);
     }
   };
 
+  const handleCancelSearch = () => {
+    searchAbortRef.current?.abort();
+  };
+
+  const handleUseCachedResults = () => {
+    if (!cacheOffer) return;
+    const { entry } = cacheOffer;
+    setResults({ ...entry.response, videos: withThumbnails(entry.response.videos || []) });
+    setCachedResults(cacheOffer);
+    setCacheOffer(null);
+    setPlayerIndex(null);
+    setVisualFilter('all');
+    setSaveStatus('idle');
+    setListingVideoError(null);
+  };
+
+  const handleSearchFresh = () => {
+    const source = cacheOffer || cachedResults;
+    if (!source) return;
+    runSearch(source.details, source.entry.key);
+  };
+
   const handleSaveSearch = async () => {
     if (!user || !results) return;
     
     setSaveStatus('saving');
     try {
       const propertyDetails: PropertyDetails = { ...address, mlsNumber };
+      // Slideshows composed in this tab can't be reopened later, so they aren't saved
+      const savedResults = withoutLocalVideos(results);
       let searchTitle = address.street;
-      let existingDocId: string | null = null;
-      let existingData: SavedSearch | null = null;
-
-      // Check for existing search with same title
-      if (db) {
-          // Note: This requires an index on userId + title if the collection is large, 
-          // but for this app scale it should be fine or might need a composite index.
-          // However, 'title' is not always unique, so we just check if ANY exists.
-          const q = query(
-              collection(db, 'searches'), 
-              where('userId', '==', user.uid),
-              where('title', '==', searchTitle)
-          );
-          const snapshot = await getDocs(q);
-          if (!snapshot.empty) {
-              const doc = snapshot.docs[0];
-              existingDocId = doc.id;
-              existingData = doc.data() as SavedSearch;
-          }
-      } else {
-          const existing = localStorage.getItem('re_app_searches');
-          if (existing) {
-              const searches: SavedSearch[] = JSON.parse(existing);
-              const found = searches.find(s => s.userId === user.uid && s.title === searchTitle);
-              if (found) {
-                  existingDocId = found.id || null;
-                  existingData = found;
-              }
-          }
-      }
 
-      if (existingData && existingDocId) {
+      // Check for existing search with same title ('title' is not unique, so take ANY match)
+      const existingSearch = await searchRepository.findByTitle(user.uid, searchTitle);
+
+      if (existingSearch) {
           // Prompt User
           const shouldMerge = window.confirm(
               `A search with the name "${searchTitle}" already exists.\n\n` +
@@ -220,41 +495,24 @@ function App() {
           );
 
           if (shouldMerge) {
-              // MERGE LOGIC
-              const oldVideos = existingData.results.videos || [];
-              const newVideos = results.videos || [];
-              
-              // Deduplicate by URI
-              const videoMap = new Map();
-              oldVideos.forEach(v => videoMap.set(v.uri, v));
-              newVideos.forEach(v => videoMap.set(v.uri, v));
-              
-              const mergedVideos = Array.from(videoMap.values());
-              
-              const updatedResults = {
-                  ...results,
-                  videos: mergedVideos,
-                  summary: results.summary // Keep new summary or merge? Usually new summary is more relevant to latest search.
-              };
-
-              // Update DB
-              if (db) {
-                  await updateDoc(doc(db, 'searches', existingDocId), {
-                      results: updatedResults,
-                      timestamp: Date.now()
-                  });
-              } else {
-                  const existing = localStorage.getItem('re_app_searches');
-                  if (existing) {
-                      const searches: SavedSearch[] = JSON.parse(existing);
-                      const idx = searches.findIndex(s => s.id === existingDocId);
-                      if (idx !== -1) {
-                          searches[idx].results = updatedResults;
-                          searches[idx].timestamp = Date.now();
-                          localStorage.setItem('re_app_searches', JSON.stringify(searches));
-                      }
-                  }
-              }
+              // MERGE LOGIC - against the stored copy at write time, so nothing saved meanwhile is lost
+              await searchRepository.merge(existingSearch.id!, [], (target) => {
+                  const oldVideos = target.results.videos || [];
+                  const newVideos = savedResults.videos || [];
+
+                  // Deduplicate by canonical video; newer entries replace older ones in place
+                  const videoMap = new Map();
+                  oldVideos.forEach(v => videoMap.set(canonicalVideoKey(v.uri), v));
+                  newVideos.forEach(v => videoMap.set(canonicalVideoKey(v.uri), v));
+
+                  const videos = Array.from(videoMap.values());
+                  return {
+                      ...savedResults,
+                      videos,
+                      found: videos.length > 0,
+                      summary: savedResults.summary // Keep new summary or merge? Usually new summary is more relevant to latest search.
+                  };
+              });
               
               setSaveStatus('saved');
               setTimeout(() => setSaveStatus('idle'), 3000);
@@ -290,105 +548,137 @@ function App() {
         timestamp: Date.now(),
         title: searchTitle, // Use the determined title
         propertyDetails,
-        results,
+        results: savedResults,
         frontImage: frontImageData,
         backImage: backImageData
       };
 
-      if (db) {
-        await addDoc(collection(db, 'searches'), searchData);
-      } else {
-        // LocalStorage Fallback
-        const existing = localStorage.getItem('re_app_searches');
-        const searches: SavedSearch[] = existing ? JSON.parse(existing) : [];
-        searches.push({ ...searchData, id: 'local-' + Date.now() });
-        localStorage.setItem('re_app_searches', JSON.stringify(searches));
-      }
+      await searchRepository.create(searchData);
 
       setSaveStatus('saved');
       setTimeout(() => setSaveStatus('idle'), 3000);
     } catch (err) {
       console.error(err);
       setSaveStatus('error');
+      if (isQuotaExceededError(err)) alert(STORAGE_FULL_MESSAGE);
     }
   };
 
-  const loadHistory = async () => {
-    if (!user) return;
-    setLoadingHistory(true);
-    setHistoryError(null);
-    setShowHistory(true);
-    setEditingId(null); 
-    try {
-      let items: SavedSearch[] = [];
+  // Save completed bulk rows as individual searches; returns the IDs of rows that were saved
+  const handleSaveBulkRows = async (rows: BulkSearchRow[]): Promise<string[]> => {
+    if (!user || rows.length === 0) return [];
+    const savedIds: string[] = [];
+    let outOfSpace = false;
 
-      if (db) {
-        // 1. Query owned searches - Remove orderBy to avoid index requirements
-        const ownedQuery = query(
-            collection(db, 'searches'),
-            where('userId', '==', user.uid)
-        );
-        
-        // 2. Query shared searches (if user has email) - Remove orderBy
-        let sharedSnapshot: any = { empty: true };
-        if (user.email) {
-            try {
-                const normalizedUserEmail = user.email.toLowerCase();
-                console.log("Attempting to fetch shared searches for:", normalizedUserEmail);
-                
-                const sharedQuery = query(
-                    collection(db, 'searches'),
-                    where('sharedWith', 'array-contains', normalizedUserEmail)
-                );
-                sharedSnapshot = await getDocs(sharedQuery);
-                console.log("Shared searches found:", sharedSnapshot.size);
-            } catch (e: any) {
-                console.error("Shared search query failed:", e);
-                if (e.code === 'permission-denied') {
-                    setHistoryError("Could not load shared searches. Database permissions may need updating.");
-                } else {
-                    setHistoryError("Failed to load some shared searches.");
-                }
-            }
+    for (const row of rows) {
+      const searchData: SavedSearch = {
+        userId: user.uid,
+        ownerEmail: user.email,
+        timestamp: Date.now(),
+        title: row.details.street,
+        propertyDetails: row.details,
+        results: row.response!
+      };
+      try {
+        await searchRepository.create(searchData);
+        savedIds.push(row.id);
+      } catch (err) {
+        console.error(`Failed to save bulk row ${row.line}:`, err);
+        if (isQuotaExceededError(err)) {
+          outOfSpace = true;
+          break;
         }
+      }
+    }
 
-        const ownedSnapshot = await getDocs(ownedQuery);
-        
-        // Merge and deduplicate
-        const uniqueItems = new Map();
-        
-        ownedSnapshot.forEach((doc) => {
-            uniqueItems.set(doc.id, { id: doc.id, ...doc.data() } as SavedSearch);
-        });
-        
-        if (!sharedSnapshot.empty) {
-            sharedSnapshot.forEach((doc: any) => {
-                if (!uniqueItems.has(doc.id)) {
-                    uniqueItems.set(doc.id, { id: doc.id, ...doc.data() } as SavedSearch);
-                }
-            });
-        }
+    if (outOfSpace) {
+      alert(`Saved ${savedIds.length} of ${rows.length} searches. ${STORAGE_FULL_MESSAGE}`);
+    } else if (savedIds.length < rows.length) {
+      alert(`Saved ${savedIds.length} of ${rows.length} searches. Check the console for details.`);
+    }
+    return savedIds;
+  };
 
-        // Sort in memory
-        items = Array.from(uniqueItems.values()).sort((a, b) => b.timestamp - a.timestamp);
+  // Show one bulk row in the main results panel
+  const handleViewBulkRow = (row: BulkSearchRow) => {
+    if (!row.response) return;
+    setAddress({ street: row.details.street, city: row.details.city, state: row.details.state, zip: row.details.zip });
+    setMlsNumber(row.details.mlsNumber);
+    setFrontImage(null);
+    setBackImage(null);
+    setResults(row.response);
+    setCacheOffer(null);
+    setCachedResults(null);
+    setPlayerIndex(null);
+    setVisualFilter('all');
+    setError(null);
+    setSaveStatus('idle');
+    setShowBulkSearch(false);
+  };
 
-      } else {
-        // LocalStorage Fallback
-        const existing = localStorage.getItem('re_app_searches');
-        const allSearches: SavedSearch[] = existing ? JSON.parse(existing) : [];
-        items = allSearches
-            .filter(s => s.userId === user.uid)
-            .sort((a, b) => b.timestamp - a.timestamp);
-      }
+  const reportSharedError = (error: any) => {
+    if (!error) return;
+    setHistoryError(error.code === 'permission-denied'
+      ? "Could not load shared searches. Database permissions may need updating."
+      : "Failed to load some shared searches.");
+  };
 
-      setHistoryList(items);
+  // First page for the given filters
+  const fetchHistory = async (filters: SavedSearchFilterValues) => {
+    if (!user) return;
+    const requestId = ++historyRequestRef.current;
+    setLoadingHistory(true);
+    setHistoryError(null);
+    try {
+      const page = await searchRepository.listPage(toSavedSearchQuery(filters, user.uid, user.email), HISTORY_PAGE_SIZE);
+      if (historyRequestRef.current !== requestId) return;
+      setHistoryList(page.items);
+      setHistoryNextPage(() => page.next);
+      reportSharedError(page.sharedError);
     } catch (err) {
+      if (historyRequestRef.current !== requestId) return;
       console.error("Error loading history:", err);
+      setHistoryList([]);
+      setHistoryNextPage(null);
+      setHistoryError("Could not load saved searches.");
+    } finally {
+      if (historyRequestRef.current === requestId) setLoadingHistory(false);
+    }
+  };
+
+  const loadHistory = () => {
+    if (!user) return;
+    setShowHistory(true);
+    setEditingId(null); 
+    if (!db) getStorageUsage().then(setStorageUsage);
+    fetchHistory(historyFilters);
+  };
+
+  const loadMoreHistory = async () => {
+    if (!historyNextPage || loadingMoreHistory) return;
+    const requestId = historyRequestRef.current;
+    setLoadingMoreHistory(true);
+    try {
+      const page = await historyNextPage();
+      if (historyRequestRef.current !== requestId) return;
+      setHistoryList(prev => [...prev, ...page.items]);
+      setHistoryNextPage(() => page.next);
+      reportSharedError(page.sharedError);
+    } catch (err) {
+      console.error("Error loading more history:", err);
+      alert("Failed to load more saved searches.");
     } finally {
-      setLoadingHistory(false);
+      setLoadingMoreHistory(false);
     }
   };
 
+  // Changing a filter reloads the list; typing gets a moment to settle first
+  useEffect(() => {
+    if (!showHistory) return;
+    const timeoutId = setTimeout(() => fetchHistory(historyFilters), 300);
+    return () => clearTimeout(timeoutId);
+  }, [historyFilters]);
+
   const handleShareSearchAccess = async (item: SavedSearch, e: React.MouseEvent) => {
       e.stopPropagation();
       if (!db || item.id?.startsWith('local-')) {
@@ -407,20 +697,21 @@ function App() {
       }
 
       try {
-          const docRef = doc(db, 'searches', item.id!);
-          
           const currentShared = item.sharedWith || [];
           if (currentShared.includes(normalizedEmail)) {
               alert("User already has access.");
               return;
           }
           
+          // Re-check links before sending so the recipient doesn't get dead videos
+          const verifiedVideos = await verifyVideoLinks(item.results.videos || []);
+          const updatedResults = { ...item.results, videos: verifiedVideos };
           const updatedShared = [...currentShared, normalizedEmail];
-          await updateDoc(docRef, { sharedWith: updatedShared });
+          await searchRepository.update(item.id!, { sharedWith: updatedShared, results: updatedResults });
           
           alert(`Shared successfully with ${normalizedEmail}`);
           // Update local state
-          setHistoryList(prev => prev.map(s => s.id === item.id ? { ...s, sharedWith: updatedShared } : s));
+          setHistoryList(prev => prev.map(s => s.id === item.id ? { ...s, sharedWith: updatedShared, results: updatedResults } : s));
 
       } catch (err) {
           console.error("Error sharing search:", err);
@@ -431,43 +722,43 @@ function App() {
   const loadSearchState = (item: SavedSearch) => {
     setAddress(item.propertyDetails);
     setMlsNumber(item.propertyDetails.mlsNumber);
-    setResults(item.results);
+    setCacheOffer(null);
+    setCachedResults(null);
+    // Recipients of a shared search don't see links the owner's checks found dead
+    const videos = item.userId === user?.uid
+        ? item.results.videos || []
+        : (item.results.videos || []).filter(video => video.availability !== 'unavailable');
+    setResults({ ...item.results, videos: withThumbnails(videos) });
     
-    // Restore Images
-    if (item.frontImage) {
-        setFrontImage({
-            file: new File([], item.frontImage.name || 'Front Image', { type: item.frontImage.mimeType }), 
-            preview: `data:${item.frontImage.mimeType};base64,${item.frontImage.base64}`,
-            base64: item.frontImage.base64,
-            mimeType: item.frontImage.mimeType
-        });
-    } else {
-        setFrontImage(null);
-    }
-
-    if (item.backImage) {
-        setBackImage({
-            file: new File([], item.backImage.name || 'Back Image', { type: item.backImage.mimeType }), 
-            preview: `data:${item.backImage.mimeType};base64,${item.backImage.base64}`,
-            base64: item.backImage.base64,
-            mimeType: item.backImage.mimeType
+    // Restore Images; full photos are fetched on demand
+    const requestId = ++savedImagesRequestRef.current;
+    setFrontImage(null);
+    setBackImage(null);
+    searchRepository.loadImages(item)
+        .then(images => {
+            if (savedImagesRequestRef.current !== requestId) return;
+            setFrontImage(fromSerializableImage(images.frontImage, 'Front Image'));
+            setBackImage(fromSerializableImage(images.backImage, 'Back Image'));
+        })
+        .catch(err => {
+            console.error("Error loading saved photos:", err);
+            if (savedImagesRequestRef.current === requestId) alert("Could not load the photos saved with this search.");
         });
-    } else {
-        setBackImage(null);
-    }
 
     setShowHistory(false);
     setSaveStatus('saved'); 
   };
 
   const restoreSearch = async (item: SavedSearch) => {
-    // Check for duplicates (same title, same user)
+    // Check for duplicates (same title, same user) across every owned search, not only the pages loaded so far
     if (user && item.userId === user.uid) {
-        const duplicates = historyList.filter(s => 
-            s.title === item.title && 
-            s.userId === user.uid && 
-            s.id !== item.id 
-        );
+        let duplicates: SavedSearch[] = [];
+        try {
+            duplicates = (await searchRepository.listOwned(user.uid)).filter(s => s.title === item.title && s.id !== item.id);
+        } catch (err) {
+            // Still open the search; merging can wait for the next restore
+            console.error("Error checking for duplicate searches:", err);
+        }
 
         if (duplicates.length > 0) {
             const shouldMerge = window.confirm(
@@ -485,72 +776,34 @@ function App() {
                     const master = allItems[0];
                     const others = allItems.slice(1);
 
-                    // 3. Merge videos
-                    const videoMap = new Map();
-                    // Add master videos first
-                    (master.results.videos || []).forEach(v => videoMap.set(v.uri, v));
-                    // Add others
-                    others.forEach(other => {
-                        (other.results.videos || []).forEach(v => {
-                            if (!videoMap.has(v.uri)) {
-                                videoMap.set(v.uri, v);
-                            }
-                        });
-                    });
-                    
-                    const mergedVideos = Array.from(videoMap.values());
-                    const updatedResults = {
-                        ...master.results,
-                        videos: mergedVideos
-                    };
-
-                    // 4. Update Master in DB
-                    if (db && !master.id!.startsWith('local-')) {
-                        await updateDoc(doc(db, 'searches', master.id!), {
-                            results: updatedResults,
-                            timestamp: Date.now() 
-                        });
-                        
-                        // 5. Delete others
-                        for (const other of others) {
-                            if (!other.id!.startsWith('local-')) {
-                                await deleteDoc(doc(db, 'searches', other.id!));
-                            }
-                        }
-                    } else {
-                        // LocalStorage logic
-                        const existing = localStorage.getItem('re_app_searches');
-                        if (existing) {
-                            let searches: SavedSearch[] = JSON.parse(existing);
-                            // Update master
-                            const mIdx = searches.findIndex(s => s.id === master.id);
-                            if (mIdx !== -1) {
-                                searches[mIdx].results = updatedResults;
-                                searches[mIdx].timestamp = Date.now();
-                            }
-                            // Filter out others
-                            const otherIds = new Set(others.map(o => o.id));
-                            searches = searches.filter(s => !otherIds.has(s.id));
-                            localStorage.setItem('re_app_searches', JSON.stringify(searches));
+                    // 3. Merge videos (master first, then others, deduplicated by canonical video),
+                    //    update the master and delete the others in one atomic write
+                    const merged = await searchRepository.merge(
+                        master.id!,
+                        others.map(other => other.id!),
+                        (target, sources) => {
+                            const videos = dedupeVideos(
+                                target.results.videos || [],
+                                ...sources.map(other => other.results.videos || [])
+                            );
+                            return { ...target.results, videos, found: videos.length > 0 };
                         }
-                    }
+                    );
 
-                    // 6. Update UI State
+                    // 4. Update UI State
+                    //    The master may sit on a page not loaded yet; then it takes the restored item's place
                     setHistoryList(prev => {
                         const otherIds = new Set(others.map(o => o.id));
-                        return prev.filter(s => !otherIds.has(s.id)).map(s => {
-                            if (s.id === master.id) {
-                                return { ...s, results: updatedResults, timestamp: Date.now() };
-                            }
-                            return s;
+                        const masterLoaded = prev.some(s => s.id === master.id);
+                        return prev.flatMap(s => {
+                            if (s.id === master.id || (!masterLoaded && s.id === item.id)) return [merged];
+                            return otherIds.has(s.id) ? [] : [s];
                         });
                     });
 
-                    // 7. Load Master into View
-                    const updatedMaster = { ...master, results: updatedResults };
-                    loadSearchState(updatedMaster);
+                    // 5. Load Master into View
+                    loadSearchState(merged);
                     return;
-
                 } catch (err) {
                     console.error("Error merging searches:", err);
                     alert("Failed to merge searches.");
@@ -569,18 +822,10 @@ function App() {
     if (!window.confirm("Are you sure you want to delete this saved search?")) return;
 
     try {
-        if (db && !itemId.startsWith('local-')) {
-            await deleteDoc(doc(db, 'searches', itemId));
-        } else {
-            const existing = localStorage.getItem('re_app_searches');
-            if (existing) {
-                const searches: SavedSearch[] = JSON.parse(existing);
-                const updated = searches.filter(s => s.id !== itemId);
-                localStorage.setItem('re_app_searches', JSON.stringify(updated));
-            }
-        }
+        await searchRepository.delete(itemId);
         // Update UI
         setHistoryList(prev => prev.filter(item => item.id !== itemId));
+        if (!db) getStorageUsage().then(setStorageUsage);
     } catch (err) {
         console.error("Error deleting search:", err);
         alert("Failed to delete search.");
@@ -602,20 +847,9 @@ function App() {
   const saveEdit = async (itemId: string, e: React.MouseEvent) => {
     e.stopPropagation();
     try {
-        if (db && !itemId.startsWith('local-')) {
-             await updateDoc(doc(db, 'searches', itemId), { title: editTitleValue });
-        } else {
-            const existing = localStorage.getItem('re_app_searches');
-            if (existing) {
-                const searches: SavedSearch[] = JSON.parse(existing);
-                const index = searches.findIndex(s => s.id === itemId);
-                if (index !== -1) {
-                    searches[index].title = editTitleValue;
-                    localStorage.setItem('re_app_searches', JSON.stringify(searches));
-                }
-            }
-        }
-        
+        await searchRepository.update(itemId, { title: editTitleValue });
+
+
         // Update local state
         setHistoryList(prev => prev.map(item => 
             item.id === itemId ? { ...item, title: editTitleValue } : item
@@ -646,63 +880,14 @@ function App() {
       }
 
       try {
-          // Merge Videos
-          const videoMap = new Map();
-          (target.results.videos || []).forEach(v => videoMap.set(v.uri, v));
-          (source.results.videos || []).forEach(v => {
-              if (!videoMap.has(v.uri)) {
-                  videoMap.set(v.uri, v);
-              }
+          // Merge Videos (target entries win over source duplicates), then delete the source
+          const merged = await searchRepository.merge(target.id!, [source.id!], (current, sources) => {
+              const videos = dedupeVideos(current.results.videos || [], ...sources.map(s => s.results.videos || []));
+              return { ...current.results, videos, found: videos.length > 0 };
           });
-          
-          const mergedVideos = Array.from(videoMap.values());
-          const updatedResults = {
-              ...target.results,
-              videos: mergedVideos
-          };
-
-          // Update Target
-          if (db && !target.id!.startsWith('local-')) {
-              await updateDoc(doc(db, 'searches', target.id!), {
-                  results: updatedResults,
-                  timestamp: Date.now()
-              });
-          } else {
-              // LocalStorage logic
-              const existing = localStorage.getItem('re_app_searches');
-              if (existing) {
-                  const searches: SavedSearch[] = JSON.parse(existing);
-                  const idx = searches.findIndex(s => s.id === target.id);
-                  if (idx !== -1) {
-                      searches[idx].results = updatedResults;
-                      searches[idx].timestamp = Date.now();
-                      localStorage.setItem('re_app_searches', JSON.stringify(searches));
-                  }
-              }
-          }
-
-          // Delete Source
-          if (db && !source.id!.startsWith('local-')) {
-              await deleteDoc(doc(db, 'searches', source.id!));
-          } else {
-              const existing = localStorage.getItem('re_app_searches');
-              if (existing) {
-                  const searches: SavedSearch[] = JSON.parse(existing);
-                  const updated = searches.filter(s => s.id !== source.id);
-                  localStorage.setItem('re_app_searches', JSON.stringify(updated));
-              }
-          }
 
           // Update UI
-          setHistoryList(prev => {
-              const filtered = prev.filter(s => s.id !== source.id);
-              return filtered.map(s => {
-                  if (s.id === target.id) {
-                      return { ...s, results: updatedResults, timestamp: Date.now() };
-                  }
-                  return s;
-              });
-          });
+          setHistoryList(prev => prev.filter(s => s.id !== source.id).map(s => s.id === target.id ? merged : s));
 
           setShowMergeModal(false);
           setMergeSourceId(null);
@@ -716,9 +901,158 @@ function App() {
 
   // --- End Deletion and Editing Logic ---
 
-  const generatePDF = () => {
+  // --- Refresh Logic ---
+
+  const handleRefreshSearch = async (item: SavedSearch, e: React.MouseEvent) => {
+      e.stopPropagation();
+      refreshAbortRef.current?.abort();
+      const controller = new AbortController();
+      refreshAbortRef.current = controller;
+      setRefreshState({ item, progress: { stage: 'querying', message: "Starting search..." }, diff: null, error: null, applying: false });
+
+      try {
+          // Photos are stored apart from the search, so fetch them for verification
+          const images = await searchRepository.loadImages(item);
+          if (controller.signal.aborted) return;
+          const frontImageFile = fromSerializableImage(images.frontImage, 'Front Image');
+          const backImageFile = fromSerializableImage(images.backImage, 'Back Image');
+          const response = await searchVideos(item.propertyDetails, frontImageFile, backImageFile, {
+              signal: controller.signal,
+              onProgress: (progress) => {
+                  if (controller.signal.aborted) return;
+                  setRefreshState(prev => prev && prev.item.id === item.id ? { ...prev, progress } : prev);
+              }
+          });
+          if (controller.signal.aborted) return;
+          const savedVideos = withThumbnails(item.results.videos || []);
+          setRefreshState(prev => prev && prev.item.id === item.id
+              ? { ...prev, progress: { stage: 'verifying', message: "Checking saved videos that didn't come back..." } }
+              : prev);
+          const freshVideos = await recheckMissingVideos(savedVideos, response.videos, { signal: controller.signal });
+          if (controller.signal.aborted) return;
+          const diff = diffSearchResults(savedVideos, freshVideos);
+          setRefreshState(prev => prev && prev.item.id === item.id ? { ...prev, diff } : prev);
+          buildCacheKey(item.propertyDetails, frontImageFile, backImageFile)
+              .then(key => saveCachedSearch(key, response, user?.uid))
+              .catch(e => console.warn("Search cache write failed:", e));
+      } catch (err) {
+          if (isAbortError(err) || controller.signal.aborted) return;
+          const { message } = describeError(err);
+          setRefreshState(prev => prev && prev.item.id === item.id ? { ...prev, error: message } : prev);
+      } finally {
+          if (refreshAbortRef.current === controller) refreshAbortRef.current = null;
+      }
+  };
+
+  const handleApplyRefresh = async (acceptedKeys: Set<string>) => {
+      if (!refreshState?.diff) return;
+      const { item, diff } = refreshState;
+      const updatedResults: SearchResponse = {
+          ...item.results,
+          videos: applySearchDiff(item.results.videos || [], diff, acceptedKeys)
+      };
+      updatedResults.found = updatedResults.videos.length > 0;
+
+      setRefreshState({ ...refreshState, applying: true });
+      try {
+          await searchRepository.update(item.id!, { results: updatedResults, timestamp: Date.now() });
+          setHistoryList(prev => prev.map(s => s.id === item.id ? { ...s, results: updatedResults, timestamp: Date.now() } : s));
+          setRefreshState(null);
+      } catch (err) {
+          console.error("Error applying refreshed results:", err);
+          alert("Failed to update the saved search.");
+          setRefreshState(prev => prev ? { ...prev, applying: false } : prev);
+      }
+  };
+
+  const closeRefresh = () => {
+      refreshAbortRef.current?.abort();
+      setRefreshState(null);
+  };
+
+  // --- End Refresh Logic ---
+
+  // --- Link Verification Logic ---
+
+  const handleVerifyAllLinks = async () => {
+      if (!user || linkCheckProgress) return;
+      // Every owned search, not only the pages loaded so far
+      let owned: SavedSearch[];
+      try {
+          owned = await searchRepository.listOwned(user.uid);
+      } catch (err) {
+          console.error("Error listing saved searches:", err);
+          alert("Failed to load your saved searches.");
+          return;
+      }
+      setLinkCheckProgress({ done: 0, total: owned.length });
+
+      let deadCount = 0;
+      let failedCount = 0;
+      for (const [index, item] of owned.entries()) {
+          try {
+              const videos = await verifyVideoLinks(item.results.videos || []);
+              deadCount += videos.filter(v => v.availability === 'unavailable').length;
+              const updated = { ...item, results: { ...item.results, videos } };
+              await searchRepository.update(item.id!, { results: updated.results });
+              setHistoryList(prev => prev.map(s => s.id === item.id ? updated : s));
+          } catch (err) {
+              console.error(`Error verifying links for "${item.title || item.propertyDetails.street}":`, err);
+              failedCount++;
+          }
+          setLinkCheckProgress({ done: index + 1, total: owned.length });
+      }
+
+      setLinkCheckProgress(null);
+      alert(
+          `Checked links in ${owned.length - failedCount} saved search(es). ` +
+          (deadCount > 0 ? `${deadCount} dead link(s) found; they are flagged and left out of shared reports.` : "No dead links found.") +
+          (failedCount > 0 ? `\n${failedCount} search(es) could not be updated.` : "")
+      );
+  };
+
+  // --- End Link Verification Logic ---
+
+  // --- Watchlist Logic ---
+
+  const updateWatch = async (item: SavedSearch, watched: boolean, intervalHours?: number) => {
+      const updated = setWatch(item, watched, intervalHours);
+      try {
+          await browserWatchStore.updateSearch(updated);
+          setHistoryList(prev => prev.map(s => s.id === item.id ? updated : s));
+      } catch (err) {
+          console.error("Error updating watch settings:", err);
+          alert("Failed to update watch settings.");
+      }
+  };
+
+  const handleToggleWatch = (item: SavedSearch, e: React.MouseEvent) => {
+      e.stopPropagation();
+      updateWatch(item, !item.watched);
+  };
+
+  const handleMarkAlertsRead = async (alertIds: string[]) => {
+      try {
+          await markAlertsRead(alertIds);
+          const ids = new Set(alertIds);
+          setAlerts(prev => prev.map(a => ids.has(a.id!) ? { ...a, read: true } : a));
+      } catch (err) {
+          console.error("Error marking alerts read:", err);
+      }
+  };
+
+  // --- End Watchlist Logic ---
+
+  const generatePDF = async () => {
     if (!results) return;
     const doc = new jsPDF();
+    // Reports go to clients, so known dead links and this tab's slideshows are left out
+    const videos = withoutLocalVideos(results).videos.filter(video => video.availability !== 'unavailable');
+
+    // Thumbnails must be embedded as data URLs; ones that fail to load are left out
+    const thumbnails = await Promise.all(
+        videos.map(video => video.thumbnailUrl ? fetchImageAsDataUrl(video.thumbnailUrl) : Promise.resolve(null))
+    );
     
     // Header
     doc.setFillColor(79, 70, 229); // Indigo 600
@@ -750,19 +1084,36 @@ function App() {
     
     doc.setFontSize(12);
     doc.setTextColor(0, 0, 0);
-    doc.text(`Found Videos (${results.videos.length})`, 10, yPos);
+    doc.text(`Found Videos (${videos.length})`, 10, yPos);
     yPos += 8;
 
-    if (results.videos.length === 0) {
+    if (videos.length === 0) {
         doc.setFontSize(10);
         doc.text("No videos found.", 10, yPos);
     } else {
         doc.setFontSize(10);
-        results.videos.forEach((video) => {
-            if (yPos > 280) {
+        videos.forEach((video, index) => {
+            const thumbnail = thumbnails[index];
+            if (yPos > (thumbnail ? 265 : 280)) {
                 doc.addPage();
                 yPos = 20;
             }
+            if (thumbnail) {
+                // 16:9 thumbnail on the left, linked text beside it
+                const format = thumbnail.startsWith('data:image/png') ? 'PNG' : 'JPEG';
+                try {
+                    doc.addImage(thumbnail, format, 10, yPos - 4, 32, 18);
+                    doc.link(10, yPos - 4, 32, 18, { url: video.uri });
+                } catch (e) {
+                    console.warn("Could not embed thumbnail in PDF:", e);
+                }
+                doc.setTextColor(79, 70, 229);
+                doc.textWithLink(doc.splitTextToSize(video.title, 150)[0], 46, yPos + 2, { url: video.uri });
+                doc.setTextColor(100, 100, 100);
+                doc.text(`Source: ${video.source}`, 46, yPos + 8);
+                yPos += 22;
+                return;
+            }
             doc.setTextColor(79, 70, 229);
             doc.textWithLink(`• ${video.title}`, 10, yPos, { url: video.uri });
             yPos += 5;
@@ -780,7 +1131,7 @@ function App() {
     
     const shareData = {
         title: `Video Search Results: ${address.street}`,
-        text: `I found ${results.videos.length} videos for ${address.street} (${address.city}).\n\nSummary: ${results.summary.substring(0, 100)}...`,
+        text: `I found ${withoutLocalVideos(results).videos.filter(v => v.availability !== 'unavailable').length} videos for ${address.street} (${address.city}).\n\nSummary: ${results.summary.substring(0, 100)}...`,
         url: window.location.href // Or deep link if app supported routing
     };
 
@@ -804,30 +1155,92 @@ function App() {
     setFrontImage(null);
     setBackImage(null);
     setResults(null);
+    setCacheOffer(null);
+    setCachedResults(null);
+    setPlayerIndex(null);
+    setVisualFilter('all');
     setError(null);
     setSaveStatus('idle');
+    setListingVideoError(null);
   };
 
   const handleDeleteVideo = (index: number) => {
     if (!results) return;
     const updatedVideos = [...results.videos];
     updatedVideos.splice(index, 1);
-    setResults({ ...results, videos: updatedVideos });
+    setResults({ ...results, videos: updatedVideos, found: updatedVideos.length > 0 });
+
+    // Move the player on to the next video the filter shows (or the previous one at the end), or close when none are left
+    if (playerIndex === index) {
+        const slot = visibleVideoIndexes.indexOf(index);
+        const next = visibleVideoIndexes[slot + 1] ?? visibleVideoIndexes[slot - 1];
+        setPlayerIndex(next === undefined ? null : next > index ? next - 1 : next);
+    } else if (playerIndex !== null && playerIndex > index) {
+        setPlayerIndex(playerIndex - 1);
+    }
+  };
+
+  // Attach a finished clip to the current search so it can be saved, shared and exported like a found video
+  const attachGeneratedVideo = (video: VideoSearchResult) => {
+    setResults(prev => prev && !prev.videos.some(v => v.uri === video.uri)
+      ? { ...prev, videos: [...prev.videos, video], found: true }
+      : prev);
+    setSaveStatus('idle');
+  };
+
+  const handleGenerateListingVideo = async (options: ListingVideoOptions) => {
+    if (!results || !jobManagerRef.current) return;
+    if (user?.isAnonymous) {
+      setListingVideoError(GUEST_VEO_MESSAGE);
+      return;
+    }
+    setGeneratingListingVideo(true);
+    setListingVideoError(null);
+    try {
+        const propertyDetails: PropertyDetails = { ...address, mlsNumber };
+        await jobManagerRef.current.submit(
+          { kind: 'listing', title: listingVideoTitle(propertyDetails, options), details: propertyDetails },
+          () => startListingVideo(propertyDetails, { frontImage, backImage }, options)
+        );
+    } catch (err: any) {
+        setListingVideoError(describeError(err).message);
+    } finally {
+        setGeneratingListingVideo(false);
+    }
+  };
+
+  // Composed slideshows join the results like a found video
+  const handleSlideshowComposed = (video: VideoSearchResult) => {
+    setResults(prev => prev ? { ...prev, videos: [...prev.videos, video], found: true } : prev);
+    setSaveStatus('idle');
   };
 
   const handleGeneratePromo = async () => {
+    if (!jobManagerRef.current) return;
+    if (user?.isAnonymous) {
+      setVideoError(GUEST_VEO_MESSAGE);
+      return;
+    }
     setGeneratingVideo(true);
     setVideoError(null);
     try {
-        const url = await generatePromotionalVideo();
-        setPromoVideoUrl(url);
+        await jobManagerRef.current.submit({ kind: 'promo', title: 'Promotional Tutorial' }, startPromotionalVideo);
     } catch (err: any) {
-        setVideoError("Could not generate video. Please ensure you have a valid API key selected.");
+        setVideoError(`Could not generate video. ${describeError(err).message}`);
     } finally {
         setGeneratingVideo(false);
     }
   };
 
+  const listingJobPending = videoJobs.some(job => job.status === 'pending' && isJobForProperty(job, { ...address, mlsNumber }));
+  const promoJobPending = videoJobs.some(job => job.kind === 'promo' && job.status === 'pending');
+  const pendingJobCount = videoJobs.filter(job => job.status === 'pending').length;
+  // Indexes into results.videos that pass the photo-match filter; the list and the player both follow it
+  const visibleVideoIndexes = (results?.videos || [])
+    .map((video, idx) => ({ video, idx }))
+    .filter(({ video }) => visualFilter === 'all' || (video.visualMatch || 'unknown') === visualFilter)
+    .map(({ idx }) => idx);
+
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col font-sans">
       {/* Header */}
@@ -843,8 +1256,53 @@ function App() {
             <h1 className="text-xl font-bold text-slate-900 tracking-tight sm:hidden">R.E.</h1>
           </div>
           <div className="flex items-center gap-3">
+            <button
+                onClick={() => setShowBulkSearch(true)}
+                className="text-sm font-medium text-slate-600 hover:text-indigo-600 transition-colors flex items-center"
+                title="Bulk Search"
+            >
+                <span className="md:hidden p-1">
+                    <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 10h16M4 14h16M4 18h16" />
+                    </svg>
+                </span>
+                <span className="hidden md:inline">Bulk Search</span>
+            </button>
+            {videoJobs.length > 0 && (
+                <button
+                    onClick={() => setShowVideoJobs(true)}
+                    className="relative text-sm font-medium text-slate-600 hover:text-indigo-600 transition-colors flex items-center"
+                    title="Video Jobs"
+                >
+                    <span className="md:hidden p-1">
+                        <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 4v16M17 4v16M3 8h4m10 0h4M3 12h18M3 16h4m10 0h4M4 20h16a1 1 0 001-1V5a1 1 0 00-1-1H4a1 1 0 00-1 1v14a1 1 0 001 1z" />
+                        </svg>
+                    </span>
+                    <span className="hidden md:inline">Video Jobs</span>
+                    {pendingJobCount > 0 && (
+                        <span className="absolute -top-1.5 -right-2.5 min-w-[16px] h-4 px-1 rounded-full bg-indigo-600 text-white text-[10px] font-bold flex items-center justify-center">
+                            {pendingJobCount}
+                        </span>
+                    )}
+                </button>
+            )}
             {user ? (
                 <div className="flex items-center gap-3">
+                    <button
+                        onClick={() => setShowAlerts(true)}
+                        className="relative text-slate-600 hover:text-indigo-600 transition-colors p-1"
+                        title="Watchlist Alerts"
+                    >
+                        <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 17h5l-1.405-1.405A2.032 2.032 0 0118 14.158V11a6.002 6.002 0 00-4-5.659V5a2 2 0 10-4 0v.341C7.67 6.165 6 8.388 6 11v3.159c0 .538-.214 1.055-.595 1.436L4 17h5m6 0v1a3 3 0 11-6 0v-1m6 0H9" />
+                        </svg>
+                        {alerts.some(a => !a.read) && (
+                            <span className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">
+                                {alerts.filter(a => !a.read).length}
+                            </span>
+                        )}
+                    </button>
                     <button 
                         onClick={loadHistory}
                         className="text-sm font-medium text-slate-600 hover:text-indigo-600 transition-colors flex items-center"
@@ -859,16 +1317,25 @@ function App() {
                     </button>
                     <div className="flex items-center gap-2 bg-slate-100 pl-3 pr-1 py-1 rounded-full">
                         <span className="text-xs font-semibold text-slate-700 max-w-[100px] truncate">
-                            {user.displayName?.split(' ')[0]}
+                            {user.isAnonymous && !user.displayName ? 'Guest' : user.displayName?.split(' ')[0]}
                         </span>
                         {user.photoURL ? (
                             <img src={user.photoURL} alt="User" className="w-7 h-7 rounded-full" />
                         ) : (
                             <div className="w-7 h-7 rounded-full bg-indigo-500 text-white flex items-center justify-center text-xs">
-                                {user.email?.[0].toUpperCase()}
+                                {user.email?.[0].toUpperCase() || 'G'}
                             </div>
                         )}
                     </div>
+                    {auth && user.isAnonymous && (
+                        <button
+                            onClick={handleLogin}
+                            className="text-xs font-medium text-indigo-600 hover:text-indigo-800"
+                            title="Keep your saved searches in a Google account"
+                        >
+                            Sign in with Google
+                        </button>
+                    )}
                     <button 
                         onClick={handleLogout}
                         className="text-xs text-slate-500 hover:text-red-500 border-l border-slate-300 pl-3 ml-1"
@@ -885,6 +1352,14 @@ function App() {
                     Sign In {(!auth) && "(Guest)"}
                 </button>
             )}
+            {!user && auth && (
+                <button
+                    onClick={handleGuestLogin}
+                    className="text-sm font-medium text-slate-500 hover:text-indigo-600 transition-colors"
+                >
+                    Continue as Guest
+                </button>
+            )}
 
             <button 
                 onClick={() => setShowHelp(true)}
@@ -1011,7 +1486,17 @@ function App() {
                        <svg className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4m0 4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                         </svg>
-                        <span>{error}</span>
+                        <div className="flex-1">
+                          <span>{error}</span>
+                          {errorRetryable && !loading && (
+                            <button
+                              type="submit"
+                              className="mt-2 block px-3 py-1 rounded-md text-xs font-medium bg-white text-red-700 border border-red-200 hover:bg-red-100 transition-colors"
+                            >
+                              Try Again
+                            </button>
+                          )}
+                        </div>
                     </div>
                   )}
 
@@ -1036,7 +1521,15 @@ function App() {
                         </>
                       )}
                     </button>
-                    {(results || error) && (
+                    {loading ? (
+                         <button 
+                         type="button" 
+                         onClick={handleCancelSearch}
+                         className="px-4 py-2.5 border border-red-200 rounded-lg text-red-600 hover:bg-red-50 font-medium transition-colors"
+                       >
+                         Cancel
+                       </button>
+                    ) : (results || error) && (
                          <button 
                          type="button" 
                          onClick={handleReset}
@@ -1053,23 +1546,91 @@ function App() {
 
             {/* Right Column: Results */}
             <div className="lg:col-span-7">
-              {loading ? (
+              {cacheOffer ? (
+                <div className="h-full min-h-[400px] flex flex-col items-center justify-center text-center p-8 bg-white rounded-2xl border border-slate-200 shadow-sm">
+                  <div className="w-16 h-16 bg-indigo-50 rounded-full flex items-center justify-center mb-4">
+                    <svg className="w-8 h-8 text-indigo-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" /></svg>
+                  </div>
+                  <h3 className="text-xl font-medium text-slate-800 mb-2">You've searched this property before</h3>
+                  <p className="text-slate-500 max-w-sm mb-6">
+                    {cacheOffer.entry.response.videos.length} video(s) were found on {new Date(cacheOffer.entry.cachedAt).toLocaleString()}.
+                  </p>
+                  <div className="flex flex-wrap justify-center gap-3">
+                    <button
+                      onClick={handleUseCachedResults}
+                      className="px-4 py-2 rounded-lg text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-700 transition-colors"
+                    >
+                      Use cached results from {new Date(cacheOffer.entry.cachedAt).toLocaleDateString()}
+                    </button>
+                    <button
+                      onClick={handleSearchFresh}
+                      className="px-4 py-2 rounded-lg text-sm font-medium bg-white text-slate-600 border border-slate-300 hover:bg-slate-50 transition-colors"
+                    >
+                      Search fresh
+                    </button>
+                  </div>
+                </div>
+              ) : loading && !results ? (
                 <div className="h-full min-h-[400px] flex flex-col items-center justify-center text-center p-8 bg-white/50 rounded-2xl border-2 border-dashed border-slate-200">
                   <div className="relative w-20 h-20 mb-6">
                      <div className="absolute top-0 left-0 w-full h-full border-4 border-indigo-200 rounded-full opacity-20 animate-ping"></div>
                      <div className="absolute top-0 left-0 w-full h-full border-4 border-indigo-600 rounded-full border-t-transparent animate-spin"></div>
                   </div>
                   <h3 className="text-xl font-medium text-slate-800 mb-2">Scouring the web...</h3>
-                  <p className="text-slate-500 max-w-sm">We are analyzing your property details and images to find matching videos.</p>
+                  <p className="text-slate-500 max-w-sm mb-6">{searchProgress?.message || "We are analyzing your property details and images to find matching videos."}</p>
+                  <SearchProgressSteps progress={searchProgress} />
+                  <button
+                    onClick={handleCancelSearch}
+                    className="mt-6 px-4 py-2 border border-slate-300 rounded-lg text-sm text-slate-600 hover:bg-slate-50 font-medium transition-colors"
+                  >
+                    Cancel Search
+                  </button>
                 </div>
               ) : results ? (
                 <div className="space-y-6">
+                   {/* Streaming progress while later stages are still running */}
+                   {loading && (
+                     <div className="bg-indigo-50 border border-indigo-100 rounded-xl p-4 flex flex-wrap items-center justify-between gap-3">
+                       <div className="space-y-2 min-w-0">
+                         <p className="text-sm text-indigo-800 font-medium flex items-center gap-2">
+                           <svg className="animate-spin h-4 w-4 text-indigo-600" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                             <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                             <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+                           </svg>
+                           {searchProgress?.message || "Searching..."}
+                         </p>
+                         <SearchProgressSteps progress={searchProgress} />
+                       </div>
+                       <button
+                         onClick={handleCancelSearch}
+                         className="px-3 py-1.5 rounded-lg text-xs font-medium bg-white text-slate-600 border border-slate-300 hover:bg-slate-50 transition-colors"
+                       >
+                         Cancel
+                       </button>
+                     </div>
+                   )}
+
+                   {/* Cached results notice */}
+                   {cachedResults && !loading && (
+                     <div className="bg-amber-50 border border-amber-100 rounded-xl p-4 flex flex-wrap items-center justify-between gap-3">
+                       <p className="text-sm text-amber-800">
+                         Showing cached results from {new Date(cachedResults.entry.cachedAt).toLocaleString()}.
+                       </p>
+                       <button
+                         onClick={handleSearchFresh}
+                         className="px-3 py-1.5 rounded-lg text-xs font-medium bg-white text-amber-800 border border-amber-200 hover:bg-amber-100 transition-colors"
+                       >
+                         Search fresh
+                       </button>
+                     </div>
+                   )}
+
                    {/* Actions Bar */}
                    <div className="flex flex-wrap gap-2 justify-end">
                         {user && (
                             <button 
                                 onClick={handleSaveSearch}
-                                disabled={saveStatus !== 'idle'}
+                                disabled={saveStatus !== 'idle' || loading}
                                 className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors ${
                                     saveStatus === 'saved' ? 'bg-green-50 text-green-700 border-green-200' : 
                                     saveStatus === 'error' ? 'bg-red-50 text-red-700 border-red-200' :
@@ -1115,20 +1676,40 @@ function App() {
 
                    {/* Videos List */}
                    <div>
-                     <h3 className="text-lg font-semibold text-slate-900 mb-4 flex items-center gap-2">
-                       Found Videos
-                       <span className="bg-indigo-100 text-indigo-700 py-0.5 px-2.5 rounded-full text-xs font-bold">{results.videos.length}</span>
-                     </h3>
+                     <div className="mb-4 flex items-center justify-between gap-3">
+                       <h3 className="text-lg font-semibold text-slate-900 flex items-center gap-2">
+                         Found Videos
+                         <span className="bg-indigo-100 text-indigo-700 py-0.5 px-2.5 rounded-full text-xs font-bold">{results.videos.length}</span>
+                       </h3>
+                       {results.videos.some(v => v.visualMatch) && (
+                         <select
+                           value={visualFilter}
+                           onChange={(e) => setVisualFilter(e.target.value as VisualMatchVerdict | 'all')}
+                           className="px-2 py-1.5 border border-slate-300 rounded-md bg-white text-xs text-slate-600 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                           aria-label="Filter by photo match"
+                         >
+                           <option value="all">All videos</option>
+                           <option value="match">Photo match</option>
+                           <option value="mismatch">Different property</option>
+                           <option value="unknown">Not verified</option>
+                         </select>
+                       )}
+                     </div>
                      
                      {results.found && results.videos.length > 0 ? (
                        <div className="grid gap-4">
-                         {results.videos.map((video, idx) => (
+                         {/* Keep the original index so delete/play address the right video */}
+                         {visibleVideoIndexes.map(idx => (
                            <VideoResult 
                              key={idx} 
-                             video={video} 
+                             video={results.videos[idx]} 
                              onDelete={() => handleDeleteVideo(idx)}
+                             onPlay={() => setPlayerIndex(idx)}
                            />
                          ))}
+                         {visibleVideoIndexes.length === 0 && (
+                           <div className="text-center text-sm text-slate-500 py-6">No videos with this verdict.</div>
+                         )}
                        </div>
                      ) : (
                        <div className="bg-amber-50 border border-amber-200 rounded-xl p-6 text-center">
@@ -1141,9 +1722,26 @@ function App() {
                          <p className="text-amber-700 text-sm">
                            No such video exists on the internet related to your Property address and Images uploaded.
                          </p>
+                         <div className="mt-5">
+                           <ListingVideoGenerator
+                             hasImages={!!(frontImage || backImage)}
+                             generating={generatingListingVideo || listingJobPending}
+                             error={listingVideoError}
+                             onGenerate={handleGenerateListingVideo}
+                           />
+                         </div>
                        </div>
                      )}
                    </div>
+
+                   {/* Client-side slideshow from the listing photos */}
+                   {!loading && (
+                     <SlideshowComposer
+                       details={{ ...address, mlsNumber }}
+                       images={[frontImage, backImage].filter((image): image is ImageFile => !!image)}
+                       onComposed={handleSlideshowComposed}
+                     />
+                   )}
                 </div>
               ) : (
                 /* Landing Page / Empty State */
@@ -1242,27 +1840,58 @@ function App() {
             <div className="relative bg-white rounded-2xl shadow-xl w-full max-w-2xl overflow-hidden max-h-[90vh] flex flex-col">
                 <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50">
                     <h2 className="text-xl font-bold text-slate-900">Saved Searches</h2>
-                    <button onClick={() => setShowHistory(false)} className="text-slate-400 hover:text-slate-600">
-                        <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                        </svg>
-                    </button>
+                    <div className="flex items-center gap-3">
+                        <button
+                            onClick={handleVerifyAllLinks}
+                            disabled={!!linkCheckProgress || loadingHistory}
+                            className="text-xs font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                            title="Re-check every video link in your saved searches"
+                        >
+                            {linkCheckProgress ? `Verifying ${linkCheckProgress.done}/${linkCheckProgress.total}...` : 'Verify All Links'}
+                        </button>
+                        <button onClick={() => setShowHistory(false)} className="text-slate-400 hover:text-slate-600">
+                            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                        </button>
+                    </div>
                 </div>
                 
+                <SavedSearchFilters filters={historyFilters} onChange={setHistoryFilters} showScope={!!db && !!user?.email} />
+
                 <div className="p-0 overflow-y-auto">
                     {historyError && (
                         <div className="bg-amber-50 p-3 text-xs text-amber-700 border-b border-amber-100 text-center">
                             {historyError}
                         </div>
                     )}
+                    {!db && storageUsage && (
+                        <div className={`p-3 text-xs border-b text-center ${
+                            storageUsage.usage / storageUsage.quota >= STORAGE_WARNING_RATIO
+                                ? 'bg-amber-50 text-amber-700 border-amber-100'
+                                : 'bg-slate-50 text-slate-500 border-slate-100'
+                        }`}>
+                            Saved on this device: {formatBytes(storageUsage.usage)} of {formatBytes(storageUsage.quota)} used
+                            {storageUsage.usage / storageUsage.quota >= STORAGE_WARNING_RATIO && ' - almost full. Delete searches you no longer need to make room.'}
+                        </div>
+                    )}
                     {loadingHistory ? (
                         <div className="p-8 text-center text-slate-500">Loading history...</div>
                     ) : historyList.length === 0 ? (
-                        <div className="p-8 text-center text-slate-500">No saved searches found.</div>
+                        <div className="p-8 text-center text-slate-500">
+                            {hasActiveFilters(historyFilters) ? "No saved searches match these filters." : "No saved searches found."}
+                        </div>
                     ) : (
                         <div className="divide-y divide-slate-100">
                             {historyList.map((item) => (
                                 <div key={item.id} onClick={() => restoreSearch(item)} className="p-4 hover:bg-slate-50 transition-colors flex justify-between items-center group cursor-pointer">
+                                    {(item.frontImageRef?.thumbnail || item.backImageRef?.thumbnail) && (
+                                        <img
+                                            src={item.frontImageRef?.thumbnail || item.backImageRef?.thumbnail}
+                                            alt=""
+                                            className="w-12 h-12 rounded-lg object-cover mr-3 flex-shrink-0 border border-slate-200"
+                                        />
+                                    )}
                                     <div className="flex-1 min-w-0 pr-4">
                                         {editingId === item.id ? (
                                             <div className="flex items-center gap-2" onClick={e => e.stopPropagation()}>
@@ -1303,7 +1932,46 @@ function App() {
                                                 <p className="text-xs text-slate-500 truncate">
                                                     {item.propertyDetails.city}, {item.propertyDetails.state} • {new Date(item.timestamp).toLocaleDateString()}
                                                 </p>
+
+                                                {/* Thumbnails of the first few saved videos */}
+                                                {(() => {
+                                                    const thumbs = withThumbnails(item.results.videos || [])
+                                                        .filter(v => v.thumbnailUrl)
+                                                        .slice(0, 4);
+                                                    return thumbs.length > 0 && (
+                                                        <div className="mt-2 flex gap-1.5">
+                                                            {thumbs.map((v, idx) => (
+                                                                <img
+                                                                    key={idx}
+                                                                    src={v.thumbnailUrl}
+                                                                    alt=""
+                                                                    loading="lazy"
+                                                                    title={v.title}
+                                                                    onError={(e) => { e.currentTarget.style.display = 'none'; }}
+                                                                    className="w-16 h-9 object-cover rounded border border-slate-200 bg-slate-100"
+                                                                />
+                                                            ))}
+                                                        </div>
+                                                    );
+                                                })()}
                                                 
+                                                {/* Watch schedule */}
+                                                {item.watched && item.userId === user.uid && (
+                                                    <div className="mt-1 flex items-center gap-2 text-[10px] text-slate-500" onClick={e => e.stopPropagation()}>
+                                                        <span className="uppercase font-semibold text-indigo-600">Watching</span>
+                                                        <select
+                                                            value={item.watchIntervalHours}
+                                                            onChange={(e) => updateWatch(item, true, Number(e.target.value))}
+                                                            className="px-1 py-0.5 border border-slate-200 rounded bg-white text-[10px]"
+                                                        >
+                                                            {WATCH_INTERVAL_OPTIONS.map(option => (
+                                                                <option key={option.hours} value={option.hours}>{option.label}</option>
+                                                            ))}
+                                                        </select>
+                                                        {item.lastCheckedAt && <span>Last checked {new Date(item.lastCheckedAt).toLocaleString()}</span>}
+                                                    </div>
+                                                )}
+
                                                 {/* Owner View: Show who I shared with */}
                                                 {item.userId === user.uid && item.sharedWith && item.sharedWith.length > 0 && (
                                                     <div className="mt-1 flex flex-wrap gap-1">
@@ -1329,6 +1997,29 @@ function App() {
                                         )}
                                     </div>
                                     <div className="flex items-center gap-2">
+                                        {item.userId === user.uid && (
+                                            <button 
+                                                onClick={(e) => handleToggleWatch(item, e)}
+                                                className={`p-2 rounded-full hover:bg-indigo-50 transition-opacity ${item.watched ? 'text-indigo-600' : 'text-slate-400 hover:text-indigo-600 opacity-0 group-hover:opacity-100'}`}
+                                                title={item.watched ? "Stop watching" : "Watch for new or removed videos"}
+                                            >
+                                                <svg className="w-5 h-5" fill={item.watched ? "currentColor" : "none"} viewBox="0 0 24 24" stroke="currentColor">
+                                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+                                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" />
+                                                </svg>
+                                            </button>
+                                        )}
+                                        {item.userId === user.uid && (
+                                            <button 
+                                                onClick={(e) => handleRefreshSearch(item, e)}
+                                                className="text-slate-400 hover:text-indigo-600 opacity-0 group-hover:opacity-100 transition-opacity p-2 rounded-full hover:bg-indigo-50"
+                                                title="Refresh: re-run and review changes"
+                                            >
+                                                <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+                                                </svg>
+                                            </button>
+                                        )}
                                         {item.userId === user.uid && (
                                             <button 
                                                 onClick={(e) => handleMergeClick(item.id!, e)}
@@ -1370,6 +2061,17 @@ function App() {
                                     </div>
                                 </div>
                             ))}
+                            {historyNextPage && (
+                                <div className="p-4 text-center">
+                                    <button
+                                        onClick={loadMoreHistory}
+                                        disabled={loadingMoreHistory}
+                                        className="px-4 py-2 rounded-lg text-sm font-medium bg-white text-slate-600 border border-slate-300 hover:bg-slate-50 disabled:opacity-50"
+                                    >
+                                        {loadingMoreHistory ? 'Loading...' : 'Load more'}
+                                    </button>
+                                </div>
+                            )}
                         </div>
                     )}
                 </div>
@@ -1419,10 +2121,10 @@ function App() {
                                 <div>
                                     <button 
                                         onClick={handleGeneratePromo}
-                                        disabled={generatingVideo}
+                                        disabled={generatingVideo || promoJobPending}
                                         className="bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center gap-2 disabled:opacity-70 disabled:cursor-not-allowed"
                                     >
-                                        {generatingVideo ? (
+                                        {generatingVideo || promoJobPending ? (
                                             <>
                                                 <svg className="animate-spin h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
                                                     <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
@@ -1435,7 +2137,7 @@ function App() {
                                         )}
                                     </button>
                                     <p className="text-xs text-indigo-400 mt-2">
-                                        * Uses Gemini Veo. Requires a funded API Key selection.
+                                        * Uses Gemini Veo through our API server. Sign in required.
                                     </p>
                                     {videoError && (
                                         <p className="text-xs text-red-500 mt-2">{videoError}</p>
@@ -1482,6 +2184,64 @@ function App() {
             </div>
         </div>
       )}
+      {/* Video Player Modal */}
+      {results && playerIndex !== null && !exportVideo && (
+        <VideoPlayerModal
+          videos={visibleVideoIndexes.map(idx => results.videos[idx])}
+          index={visibleVideoIndexes.indexOf(playerIndex)}
+          onIndexChange={(index) => setPlayerIndex(visibleVideoIndexes[index])}
+          onDelete={(index) => handleDeleteVideo(visibleVideoIndexes[index])}
+          onExport={setExportVideo}
+          onClose={() => setPlayerIndex(null)}
+        />
+      )}
+      {/* Video Jobs */}
+      {showVideoJobs && (
+        <VideoJobsModal
+          jobs={videoJobs}
+          onAddToResults={results ? (job) => job.result && attachGeneratedVideo(job.result) : undefined}
+          onCancel={(jobId) => jobManagerRef.current?.cancel(jobId)}
+          onRemove={(jobId) => jobManagerRef.current?.remove(jobId)}
+          onClearFinished={() => jobManagerRef.current?.clearFinished()}
+          onClose={() => setShowVideoJobs(false)}
+        />
+      )}
+      {/* Social Export Modal */}
+      {exportVideo && (
+        <SocialExportModal
+          video={exportVideo}
+          details={{ ...address, mlsNumber }}
+          onClose={() => setExportVideo(null)}
+        />
+      )}
+      {/* Bulk Search Modal */}
+      <BulkSearchModal
+        isOpen={showBulkSearch}
+        canSave={!!user}
+        onSaveRows={handleSaveBulkRows}
+        onViewRow={handleViewBulkRow}
+        onClose={() => setShowBulkSearch(false)}
+      />
+      {/* Alert Inbox */}
+      {showAlerts && (
+        <AlertInboxModal
+          alerts={alerts}
+          onMarkRead={handleMarkAlertsRead}
+          onClose={() => setShowAlerts(false)}
+        />
+      )}
+      {/* Refresh Modal */}
+      {refreshState && (
+        <SearchRefreshModal
+          title={refreshState.item.title || refreshState.item.propertyDetails.street}
+          progress={refreshState.progress}
+          diff={refreshState.diff}
+          error={refreshState.error}
+          applying={refreshState.applying}
+          onApply={handleApplyRefresh}
+          onClose={closeRefresh}
+        />
+      )}
       {/* Merge Modal */}
       {showMergeModal && mergeSourceId && (
         <div className="fixed inset-0 z-[110] flex items-center justify-center p-4">
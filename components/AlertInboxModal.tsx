@@ -0,0 +1,80 @@
+import React from 'react';
+import { WatchAlert } from '../types';
+
+interface AlertInboxModalProps {
+  alerts: WatchAlert[];
+  onMarkRead: (alertIds: string[]) => void;
+  onClose: () => void;
+}
+
+const AlertInboxModal: React.FC<AlertInboxModalProps> = ({ alerts, onMarkRead, onClose }) => {
+  const unreadIds = alerts.filter(a => !a.read).map(a => a.id!);
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/50 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative bg-white rounded-2xl shadow-xl w-full max-w-2xl overflow-hidden max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <h2 className="text-xl font-bold text-slate-900">Watchlist Alerts</h2>
+          <div className="flex items-center gap-3">
+            {unreadIds.length > 0 && (
+              <button onClick={() => onMarkRead(unreadIds)} className="text-xs font-medium text-indigo-600 hover:text-indigo-800">
+                Mark all as read
+              </button>
+            )}
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+              <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto">
+          {alerts.length === 0 ? (
+            <div className="p-8 text-center text-slate-500">
+              No alerts yet. Watch a saved search from My History to be told when its videos change.
+            </div>
+          ) : (
+            <ul className="divide-y divide-slate-100">
+              {alerts.map(alert => (
+                <li
+                  key={alert.id}
+                  onClick={() => !alert.read && onMarkRead([alert.id!])}
+                  className={`p-4 ${alert.read ? '' : 'bg-indigo-50/50 cursor-pointer'}`}
+                >
+                  <div className="flex items-start justify-between gap-3 mb-1">
+                    <p className="text-sm font-medium text-slate-800">
+                      {!alert.read && <span className="inline-block w-2 h-2 rounded-full bg-indigo-600 mr-2 align-middle"></span>}
+                      {alert.kind === 'new-videos'
+                        ? `${alert.videos.length} new video(s) for "${alert.searchTitle}"`
+                        : `${alert.videos.length} video(s) went offline for "${alert.searchTitle}"`}
+                    </p>
+                    <span className="text-xs text-slate-400 flex-shrink-0">{new Date(alert.createdAt).toLocaleString()}</span>
+                  </div>
+                  <ul className="space-y-0.5">
+                    {alert.videos.map(video => (
+                      <li key={video.uri} className="text-xs truncate">
+                        <a
+                          href={video.uri}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          onClick={e => e.stopPropagation()}
+                          className={alert.kind === 'new-videos' ? 'text-indigo-600 hover:text-indigo-800' : 'text-slate-500 line-through'}
+                        >
+                          {video.title}
+                        </a>
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AlertInboxModal;
@@ -0,0 +1,257 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { BulkSearchRow, BulkRowStatus } from '../types';
+import { parseListingsCsv } from '../services/csvImport';
+import { createBulkSearchQueue, BulkSearchQueue } from '../services/bulkSearchQueue';
+import { getConfidenceLevel } from '../services/scoring';
+import { describeError } from '../services/errors';
+
+interface BulkSearchModalProps {
+  isOpen: boolean;
+  canSave: boolean;
+  onSaveRows: (rows: BulkSearchRow[]) => Promise<string[]>; // Resolves to the IDs of rows that were saved
+  onViewRow: (row: BulkSearchRow) => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<BulkRowStatus, string> = {
+  pending: 'bg-slate-100 text-slate-600',
+  running: 'bg-indigo-100 text-indigo-700',
+  done: 'bg-green-100 text-green-700',
+  failed: 'bg-red-100 text-red-700',
+  cancelled: 'bg-amber-100 text-amber-700'
+};
+
+const BulkSearchModal: React.FC<BulkSearchModalProps> = ({ isOpen, canSave, onSaveRows, onViewRow, onClose }) => {
+  const [rows, setRows] = useState<BulkSearchRow[]>([]);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [concurrency, setConcurrency] = useState(2);
+  const [queueState, setQueueState] = useState<'idle' | 'running' | 'paused' | 'finished'>('idle');
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const queueRef = useRef<BulkSearchQueue | null>(null);
+
+  // The modal stays mounted while hidden so a running queue survives closing it;
+  // only unmounting the app abandons it
+  useEffect(() => () => queueRef.current?.cancel(), []);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { rows: parsed, errors } = parseListingsCsv(await file.text());
+    setImportErrors(errors);
+    setRows(parsed.map(({ line, details }) => ({ id: `row-${line}`, line, details, status: 'pending' })));
+    setQueueState('idle');
+  };
+
+  const handleStart = () => {
+    // Re-running picks up rows that failed or were cancelled last time
+    const queued = rows.map(row =>
+      row.status === 'failed' || row.status === 'cancelled' ? { ...row, status: 'pending' as const, error: undefined } : row
+    );
+    setRows(queued);
+
+    const queue = createBulkSearchQueue(queued.map(row => ({ ...row })), {
+      concurrency,
+      onRowUpdate: (updated) => setRows(prev => prev.map(row => row.id === updated.id ? updated : row)),
+      onIdle: () => {
+        if (queueRef.current === queue) setQueueState('finished');
+      }
+    });
+    queueRef.current = queue;
+    setQueueState('running');
+    queue.start();
+  };
+
+  const handlePauseResume = () => {
+    const queue = queueRef.current;
+    if (!queue) return;
+    if (queue.isPaused()) {
+      queue.resume();
+      setQueueState('running');
+    } else {
+      queue.pause();
+      setQueueState('paused');
+    }
+  };
+
+  const handleCancel = () => queueRef.current?.cancel();
+
+  const handleConcurrencyChange = (value: number) => {
+    setConcurrency(value);
+    queueRef.current?.setConcurrency(value);
+  };
+
+  const handleSaveCompleted = async () => {
+    setSaving(true);
+    setSaveError(null);
+    try {
+      const savedIds = await onSaveRows(rows.filter(row => row.status === 'done' && !row.saved));
+      setRows(prev => prev.map(row => savedIds.includes(row.id) ? { ...row, saved: true } : row));
+    } catch (err) {
+      console.error("Failed to save bulk results:", err);
+      setSaveError(`Could not save the completed searches. ${describeError(err).message}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const counts = rows.reduce((acc, row) => {
+    acc[row.status] = (acc[row.status] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<BulkRowStatus, number>>);
+  const completed = (counts.done || 0) + (counts.failed || 0) + (counts.cancelled || 0);
+  const isActive = queueState === 'running' || queueState === 'paused';
+  const unsavedDone = rows.filter(row => row.status === 'done' && !row.saved).length;
+  const canRun = rows.some(row => row.status !== 'done');
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/50 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative bg-white rounded-2xl shadow-xl w-full max-w-5xl overflow-hidden max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900">Bulk Search</h2>
+            <p className="text-xs text-slate-500 mt-1">Upload a CSV with street, city, state, zip and mls columns.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          <div className="flex flex-wrap items-center gap-3">
+            <label className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors ${isActive ? 'opacity-50 cursor-not-allowed bg-white text-slate-600 border-slate-300' : 'cursor-pointer bg-white text-slate-600 border-slate-300 hover:bg-slate-50'}`}>
+              Choose CSV…
+              <input type="file" accept=".csv,.tsv,.txt,text/csv" className="hidden" onChange={handleFile} disabled={isActive} />
+            </label>
+            <label className="flex items-center gap-2 text-xs text-slate-600">
+              Parallel searches
+              <select
+                value={concurrency}
+                onChange={(e) => handleConcurrencyChange(Number(e.target.value))}
+                className="px-2 py-1 border border-slate-300 rounded-md bg-white text-xs"
+              >
+                {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+
+            <div className="flex items-center gap-2 ml-auto">
+              {!isActive ? (
+                <button
+                  onClick={handleStart}
+                  disabled={!canRun}
+                  className="px-3 py-1.5 rounded-lg text-xs font-medium bg-indigo-600 text-white hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {queueState === 'finished' ? 'Retry Unfinished' : 'Start'}
+                </button>
+              ) : (
+                <>
+                  <button
+                    onClick={handlePauseResume}
+                    className="px-3 py-1.5 rounded-lg text-xs font-medium bg-white text-slate-600 border border-slate-300 hover:bg-slate-50 transition-colors"
+                  >
+                    {queueState === 'paused' ? 'Resume' : 'Pause'}
+                  </button>
+                  <button
+                    onClick={handleCancel}
+                    className="px-3 py-1.5 rounded-lg text-xs font-medium bg-white text-red-600 border border-red-200 hover:bg-red-50 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </>
+              )}
+              {canSave && (
+                <button
+                  onClick={handleSaveCompleted}
+                  disabled={unsavedDone === 0 || saving}
+                  className="px-3 py-1.5 rounded-lg text-xs font-medium bg-green-50 text-green-700 border border-green-200 hover:bg-green-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {saving ? 'Saving...' : `Save Completed (${unsavedDone})`}
+                </button>
+              )}
+            </div>
+          </div>
+
+          {saveError && (
+            <div className="p-3 bg-red-50 text-red-700 text-xs rounded-md border border-red-200">{saveError}</div>
+          )}
+
+          {importErrors.length > 0 && (
+            <div className="p-3 bg-amber-50 text-amber-800 text-xs rounded-md border border-amber-200 space-y-1">
+              <p className="font-medium">Some rows were skipped:</p>
+              {importErrors.map(err => <p key={err}>{err}</p>)}
+            </div>
+          )}
+
+          {rows.length > 0 && (
+            <>
+              <div className="flex flex-wrap gap-4 text-xs text-slate-600">
+                <span>{completed} of {rows.length} complete{queueState === 'paused' && ' (paused)'}</span>
+                <span className="text-green-700">{counts.done || 0} done</span>
+                <span className="text-red-700">{counts.failed || 0} failed</span>
+                {(counts.cancelled || 0) > 0 && <span className="text-amber-700">{counts.cancelled} cancelled</span>}
+              </div>
+              <div className="w-full h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-500 transition-all" style={{ width: `${(completed / rows.length) * 100}%` }}></div>
+              </div>
+
+              <div className="border border-slate-200 rounded-lg overflow-x-auto">
+                <table className="w-full text-xs text-left">
+                  <thead className="bg-slate-50 text-slate-500 uppercase tracking-wider">
+                    <tr>
+                      <th className="px-3 py-2">Line</th>
+                      <th className="px-3 py-2">Property</th>
+                      <th className="px-3 py-2">MLS</th>
+                      <th className="px-3 py-2">Status</th>
+                      <th className="px-3 py-2">Videos</th>
+                      <th className="px-3 py-2">Best Match</th>
+                      <th className="px-3 py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {rows.map(row => {
+                      const best = row.response?.videos[0];
+                      return (
+                        <tr key={row.id} className="align-top">
+                          <td className="px-3 py-2 text-slate-400">{row.line}</td>
+                          <td className="px-3 py-2 text-slate-800">
+                            {row.details.street}, {row.details.city}, {row.details.state} {row.details.zip}
+                            {row.error && <p className="text-red-600 mt-1">{row.error}</p>}
+                          </td>
+                          <td className="px-3 py-2 text-slate-600">{row.details.mlsNumber}</td>
+                          <td className="px-3 py-2">
+                            <span className={`px-2 py-0.5 rounded-full font-medium ${STATUS_STYLES[row.status]}`}>{row.status}</span>
+                            {row.saved && <span className="ml-1 text-green-600">saved</span>}
+                          </td>
+                          <td className="px-3 py-2 text-slate-600">{row.response ? row.response.videos.length : '—'}</td>
+                          <td className="px-3 py-2 text-slate-600 max-w-[200px] truncate">
+                            {best ? `${best.title}${best.confidence !== undefined ? ` (${getConfidenceLevel(best.confidence)})` : ''}` : '—'}
+                          </td>
+                          <td className="px-3 py-2 text-right">
+                            {row.status === 'done' && (
+                              <button onClick={() => onViewRow(row)} className="text-indigo-600 hover:text-indigo-800 font-medium">
+                                View
+                              </button>
+                            )}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkSearchModal;
@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { ListingVideoOptions, ListingVideoStyle, VideoAspectRatio, VideoResolution } from '../types';
+
+interface ListingVideoGeneratorProps {
+  hasImages: boolean;
+  generating: boolean;
+  error: string | null;
+  onGenerate: (options: ListingVideoOptions) => void;
+}
+
+const STYLE_LABELS: Record<ListingVideoStyle, string> = {
+  cinematic: 'Cinematic',
+  bright: 'Bright & Airy',
+  twilight: 'Twilight',
+  aerial: 'Aerial Reveal'
+};
+
+const ListingVideoGenerator: React.FC<ListingVideoGeneratorProps> = ({ hasImages, generating, error, onGenerate }) => {
+  const [options, setOptions] = useState<ListingVideoOptions>({
+    aspectRatio: '16:9',
+    resolution: '720p',
+    style: 'cinematic'
+  });
+
+  const selectClass = "w-full px-2 py-1.5 border border-slate-300 rounded-md bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-60";
+
+  return (
+    <div className="bg-white border border-indigo-100 rounded-xl p-5 text-left">
+      <h4 className="text-slate-900 font-semibold mb-1 flex items-center gap-2">
+        <svg className="w-5 h-5 text-indigo-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+        </svg>
+        Generate a Listing Teaser
+      </h4>
+      <p className="text-xs text-slate-500 mb-4">
+        Turn your uploaded property photos into a short AI video with Veo. The clip is added to this search when it's ready, and keeps generating if you reload (see Video Jobs).
+      </p>
+
+      <div className="grid grid-cols-3 gap-3 mb-4">
+        <div>
+          <label className="block text-[10px] font-medium text-slate-500 uppercase tracking-wider mb-1">Format</label>
+          <select
+            value={options.aspectRatio}
+            disabled={generating}
+            onChange={(e) => setOptions(prev => ({ ...prev, aspectRatio: e.target.value as VideoAspectRatio }))}
+            className={selectClass}
+          >
+            <option value="16:9">Landscape (16:9)</option>
+            <option value="9:16">Vertical (9:16)</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-[10px] font-medium text-slate-500 uppercase tracking-wider mb-1">Resolution</label>
+          <select
+            value={options.resolution}
+            disabled={generating}
+            onChange={(e) => setOptions(prev => ({ ...prev, resolution: e.target.value as VideoResolution }))}
+            className={selectClass}
+          >
+            <option value="720p">720p</option>
+            <option value="1080p">1080p</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-[10px] font-medium text-slate-500 uppercase tracking-wider mb-1">Style</label>
+          <select
+            value={options.style}
+            disabled={generating}
+            onChange={(e) => setOptions(prev => ({ ...prev, style: e.target.value as ListingVideoStyle }))}
+            className={selectClass}
+          >
+            {(Object.keys(STYLE_LABELS) as ListingVideoStyle[]).map(style => (
+              <option key={style} value={style}>{STYLE_LABELS[style]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <button
+        onClick={() => onGenerate(options)}
+        disabled={generating || !hasImages}
+        className="w-full bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors flex items-center justify-center gap-2 disabled:opacity-60 disabled:cursor-not-allowed"
+      >
+        {generating ? (
+          <>
+            <svg className="animate-spin h-4 w-4 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+              <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+              <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path>
+            </svg>
+            Generating Video (Veo AI)... this can take a few minutes
+          </>
+        ) : (
+          "Generate Teaser Video"
+        )}
+      </button>
+
+      {!hasImages && (
+        <p className="text-xs text-slate-400 mt-2">Upload a front or back photo to enable video generation.</p>
+      )}
+      <p className="text-xs text-indigo-400 mt-2">
+        * Uses Gemini Veo through our API server. Sign in required.
+      </p>
+      {error && (
+        <p className="text-xs text-red-500 mt-2">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default ListingVideoGenerator;
@@ -0,0 +1,131 @@
+import React from 'react';
+import { SavedSearchQuery, SavedSearchScope, SavedSearchSort } from '../types';
+
+// Form state; dates stay as <input type="date"> strings until a query is built
+export interface SavedSearchFilterValues {
+  text: string;
+  scope: SavedSearchScope;
+  sort: SavedSearchSort;
+  city: string;
+  state: string;
+  from: string;
+  to: string;
+  hasVideos: boolean;
+}
+
+export const DEFAULT_SAVED_SEARCH_FILTERS: SavedSearchFilterValues = {
+  text: '',
+  scope: 'all',
+  sort: 'newest',
+  city: '',
+  state: '',
+  from: '',
+  to: '',
+  hasVideos: false
+};
+
+// Sorting doesn't hide anything, so it doesn't count
+export const hasActiveFilters = (filters: SavedSearchFilterValues): boolean =>
+  !!(filters.text.trim() || filters.scope !== 'all' || filters.city.trim() || filters.state.trim() ||
+    filters.from || filters.to || filters.hasVideos);
+
+// Dates are whole local days, so "to" includes the day it names
+export const toSavedSearchQuery = (filters: SavedSearchFilterValues, userId: string, email?: string | null): SavedSearchQuery => ({
+  userId,
+  email,
+  scope: filters.scope,
+  sort: filters.sort,
+  text: filters.text.trim() || undefined,
+  city: filters.city.trim() || undefined,
+  state: filters.state.trim() || undefined,
+  from: filters.from ? new Date(`${filters.from}T00:00:00`).getTime() : undefined,
+  to: filters.to ? new Date(`${filters.to}T23:59:59.999`).getTime() : undefined,
+  hasVideos: filters.hasVideos || undefined
+});
+
+interface SavedSearchFiltersProps {
+  filters: SavedSearchFilterValues;
+  onChange: (filters: SavedSearchFilterValues) => void;
+  showScope: boolean; // Only signed-in accounts can have searches shared with them
+}
+
+const inputClass = "px-2 py-1.5 border border-slate-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500";
+
+const SavedSearchFilters: React.FC<SavedSearchFiltersProps> = ({ filters, onChange, showScope }) => {
+  const update = (changes: Partial<SavedSearchFilterValues>) => onChange({ ...filters, ...changes });
+
+  return (
+    <div className="p-4 border-b border-slate-100 space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="search"
+          value={filters.text}
+          onChange={e => update({ text: e.target.value })}
+          placeholder="Search title, street, city or MLS #"
+          className={`${inputClass} flex-1 min-w-0 text-sm`}
+          aria-label="Search saved searches"
+        />
+        <select
+          value={filters.sort}
+          onChange={e => update({ sort: e.target.value as SavedSearchSort })}
+          className={`${inputClass} text-sm`}
+          aria-label="Sort saved searches"
+        >
+          <option value="newest">Newest first</option>
+          <option value="oldest">Oldest first</option>
+          <option value="title">Title A-Z</option>
+        </select>
+      </div>
+      <div className="flex flex-wrap items-center gap-2 text-xs text-slate-600">
+        {showScope && (
+          <select
+            value={filters.scope}
+            onChange={e => update({ scope: e.target.value as SavedSearchScope })}
+            className={inputClass}
+            aria-label="Whose searches"
+          >
+            <option value="all">All searches</option>
+            <option value="owned">My searches</option>
+            <option value="shared">Shared with me</option>
+          </select>
+        )}
+        <input
+          type="text"
+          value={filters.city}
+          onChange={e => update({ city: e.target.value })}
+          placeholder="City"
+          className={`${inputClass} w-28`}
+        />
+        <input
+          type="text"
+          value={filters.state}
+          onChange={e => update({ state: e.target.value })}
+          placeholder="State"
+          className={`${inputClass} w-16`}
+        />
+        <label className="flex items-center gap-1">
+          From
+          <input type="date" value={filters.from} max={filters.to || undefined} onChange={e => update({ from: e.target.value })} className={inputClass} />
+        </label>
+        <label className="flex items-center gap-1">
+          To
+          <input type="date" value={filters.to} min={filters.from || undefined} onChange={e => update({ to: e.target.value })} className={inputClass} />
+        </label>
+        <label className="flex items-center gap-1 cursor-pointer">
+          <input type="checkbox" checked={filters.hasVideos} onChange={e => update({ hasVideos: e.target.checked })} />
+          Has videos
+        </label>
+        {hasActiveFilters(filters) && (
+          <button
+            onClick={() => onChange({ ...DEFAULT_SAVED_SEARCH_FILTERS, sort: filters.sort })}
+            className="font-medium text-indigo-600 hover:text-indigo-800"
+          >
+            Clear filters
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SavedSearchFilters;
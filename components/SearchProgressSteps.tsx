@@ -0,0 +1,43 @@
+import React from 'react';
+import { SearchProgress, SearchStage } from '../types';
+
+interface SearchProgressStepsProps {
+  progress: SearchProgress | null;
+}
+
+const STAGES: { stage: SearchStage; label: string }[] = [
+  { stage: 'querying', label: 'Querying the model' },
+  { stage: 'extracting', label: 'Extracting links' },
+  { stage: 'verifying', label: 'Verifying availability' },
+  { stage: 'done', label: 'Done' }
+];
+
+const SearchProgressSteps: React.FC<SearchProgressStepsProps> = ({ progress }) => {
+  const currentIndex = progress ? STAGES.findIndex(s => s.stage === progress.stage) : 0;
+
+  return (
+    <ol className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs">
+      {STAGES.map(({ stage, label }, idx) => {
+        const isDone = idx < currentIndex || progress?.stage === 'done';
+        const isActive = idx === currentIndex && !isDone;
+        return (
+          <li
+            key={stage}
+            className={`flex items-center gap-1.5 ${isDone ? 'text-green-600' : isActive ? 'text-indigo-600 font-medium' : 'text-slate-400'}`}
+          >
+            {isDone ? (
+              <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
+            ) : isActive ? (
+              <span className="w-2 h-2 rounded-full bg-indigo-600 animate-pulse"></span>
+            ) : (
+              <span className="w-2 h-2 rounded-full bg-slate-300"></span>
+            )}
+            {label}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default SearchProgressSteps;
@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { SearchDiff, SearchProgress, VideoSearchResult } from '../types';
+import { canonicalVideoKey } from '../services/videoUrl';
+import SearchProgressSteps from './SearchProgressSteps';
+
+interface SearchRefreshModalProps {
+  title: string;
+  progress: SearchProgress | null;
+  diff: SearchDiff | null;
+  error: string | null;
+  applying: boolean;
+  onApply: (acceptedKeys: Set<string>) => void;
+  onClose: () => void;
+}
+
+interface DiffSectionProps {
+  label: string;
+  hint: string;
+  tone: 'green' | 'red' | 'amber';
+  videos: VideoSearchResult[];
+  accepted: Set<string>;
+  onToggle: (key: string) => void;
+}
+
+const TONES = {
+  green: 'text-green-700 bg-green-50 border-green-100',
+  red: 'text-red-700 bg-red-50 border-red-100',
+  amber: 'text-amber-700 bg-amber-50 border-amber-100'
+};
+
+const DiffSection: React.FC<DiffSectionProps> = ({ label, hint, tone, videos, accepted, onToggle }) => {
+  if (videos.length === 0) return null;
+  return (
+    <div>
+      <div className={`px-3 py-2 rounded-t-lg border text-xs font-semibold uppercase tracking-wider ${TONES[tone]}`}>
+        {label} ({videos.length}) <span className="normal-case font-normal tracking-normal ml-1">{hint}</span>
+      </div>
+      <ul className="border border-t-0 border-slate-200 rounded-b-lg divide-y divide-slate-100">
+        {videos.map(video => {
+          const key = canonicalVideoKey(video.uri);
+          return (
+            <li key={key} className="px-3 py-2 flex items-center gap-3">
+              <input
+                type="checkbox"
+                checked={accepted.has(key)}
+                onChange={() => onToggle(key)}
+                className="h-4 w-4 text-indigo-600 border-slate-300 rounded"
+              />
+              {video.thumbnailUrl && (
+                <img src={video.thumbnailUrl} alt="" className="w-16 h-9 object-cover rounded border border-slate-200 bg-slate-100 flex-shrink-0" />
+              )}
+              <div className="min-w-0">
+                <a href={video.uri} target="_blank" rel="noopener noreferrer" className="text-sm text-slate-800 hover:text-indigo-600 truncate block">
+                  {video.title}
+                </a>
+                <p className="text-xs text-slate-500 truncate">{video.source}</p>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+const SearchRefreshModal: React.FC<SearchRefreshModalProps> = ({ title, progress, diff, error, applying, onApply, onClose }) => {
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+
+  // New videos and confirmed-unavailable ones are pre-selected; a video merely missing
+  // from this run's results may just have ranked lower, so removing it is opt-in
+  useEffect(() => {
+    if (!diff) return;
+    setAccepted(new Set([...diff.added, ...diff.unavailable].map(video => canonicalVideoKey(video.uri))));
+  }, [diff]);
+
+  const toggle = (key: string) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  const hasChanges = !!diff && (diff.added.length + diff.disappeared.length + diff.unavailable.length) > 0;
+
+  return (
+    <div className="fixed inset-0 z-[110] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/50 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative bg-white rounded-2xl shadow-xl w-full max-w-2xl overflow-hidden max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <div className="min-w-0">
+            <h2 className="text-xl font-bold text-slate-900">Refresh Search</h2>
+            <p className="text-xs text-slate-500 mt-1 truncate">{title}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4 overflow-y-auto">
+          {error ? (
+            <div className="p-3 bg-red-50 text-red-700 text-sm rounded-md border border-red-200">{error}</div>
+          ) : !diff ? (
+            <div className="py-8 flex flex-col items-center text-center gap-4">
+              <p className="text-sm text-slate-600">{progress?.message || "Re-running the search..."}</p>
+              <SearchProgressSteps progress={progress} />
+            </div>
+          ) : !hasChanges ? (
+            <div className="py-8 text-center text-slate-500 text-sm">
+              No changes. All {diff.unchanged.length} saved video(s) were found again.
+            </div>
+          ) : (
+            <>
+              <p className="text-xs text-slate-500">Select the changes to apply to this saved search.</p>
+              <DiffSection label="New" hint="add to the saved search" tone="green" videos={diff.added} accepted={accepted} onToggle={toggle} />
+              <DiffSection label="Unavailable" hint="removed or made private; remove" tone="red" videos={diff.unavailable} accepted={accepted} onToggle={toggle} />
+              <DiffSection label="Not found this time" hint="remove" tone="amber" videos={diff.disappeared} accepted={accepted} onToggle={toggle} />
+              {diff.unchanged.length > 0 && (
+                <p className="text-xs text-slate-500">{diff.unchanged.length} video(s) unchanged.</p>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-slate-100 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 rounded-lg text-xs font-medium bg-white text-slate-600 border border-slate-300 hover:bg-slate-50 transition-colors"
+          >
+            {diff || error ? 'Close' : 'Cancel'}
+          </button>
+          {hasChanges && (
+            <button
+              onClick={() => onApply(accepted)}
+              disabled={applying || accepted.size === 0}
+              className="px-3 py-1.5 rounded-lg text-xs font-medium bg-indigo-600 text-white hover:bg-indigo-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {applying ? 'Applying...' : `Apply ${accepted.size} Change(s)`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SearchRefreshModal;
@@ -0,0 +1,171 @@
+import React, { useRef, useState } from 'react';
+import { ImageFile, PropertyDetails, SlideshowOptions, VideoAspectRatio, VideoSearchResult } from '../types';
+import { composeSlideshow, isSlideshowSupported, toSlideshowResult } from '../services/slideshowComposer';
+import { isAbortError } from '../services/abort';
+
+interface SlideshowComposerProps {
+  details: PropertyDetails;
+  images: ImageFile[]; // Front/back photos from the search form
+  onComposed: (video: VideoSearchResult) => void;
+}
+
+// Extra photos only need to be displayable; they are never sent to a model
+const readImageFile = (file: File): Promise<ImageFile> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const dataUrl = reader.result as string;
+      resolve({ file, preview: dataUrl, base64: dataUrl.split(',')[1] || '', mimeType: file.type });
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const SlideshowComposer: React.FC<SlideshowComposerProps> = ({ details, images, onComposed }) => {
+  const [extraImages, setExtraImages] = useState<ImageFile[]>([]);
+  const [options, setOptions] = useState<SlideshowOptions>({
+    aspectRatio: '16:9',
+    secondsPerPhoto: 4,
+    includeTitleCard: true,
+    audio: null
+  });
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const allImages = [...images, ...extraImages];
+  const composing = progress !== null;
+  const selectClass = "w-full px-2 py-1.5 border border-slate-300 rounded-md bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-60";
+
+  const handleAddPhotos = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []).filter((file: File) => file.type.startsWith('image/'));
+    e.target.value = '';
+    const added = await Promise.all(files.map(readImageFile));
+    setExtraImages(prev => [...prev, ...added]);
+  };
+
+  const handleCompose = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress(0);
+    try {
+      const { blob } = await composeSlideshow(allImages, details, options, {
+        signal: controller.signal,
+        onProgress: setProgress
+      });
+      onComposed(toSlideshowResult(blob, details, options));
+    } catch (err: any) {
+      if (!isAbortError(err)) setError(err.message || "Could not create the slideshow.");
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  if (!isSlideshowSupported()) return null;
+
+  return (
+    <div className="bg-white border border-slate-200 rounded-xl p-5 text-left">
+      <h4 className="text-slate-900 font-semibold mb-1 flex items-center gap-2">
+        <svg className="w-5 h-5 text-indigo-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+        </svg>
+        Create a Photo Slideshow
+      </h4>
+      <p className="text-xs text-slate-500 mb-4">
+        Builds a pan-and-zoom video from your photos right in the browser. No API key or network needed.
+      </p>
+
+      <div className="grid grid-cols-3 gap-3 mb-3">
+        <div>
+          <label className="block text-[10px] font-medium text-slate-500 uppercase tracking-wider mb-1">Format</label>
+          <select
+            value={options.aspectRatio}
+            disabled={composing}
+            onChange={(e) => setOptions(prev => ({ ...prev, aspectRatio: e.target.value as VideoAspectRatio }))}
+            className={selectClass}
+          >
+            <option value="16:9">Landscape (16:9)</option>
+            <option value="9:16">Vertical (9:16)</option>
+          </select>
+        </div>
+        <div>
+          <label className="block text-[10px] font-medium text-slate-500 uppercase tracking-wider mb-1">Per Photo</label>
+          <select
+            value={options.secondsPerPhoto}
+            disabled={composing}
+            onChange={(e) => setOptions(prev => ({ ...prev, secondsPerPhoto: Number(e.target.value) }))}
+            className={selectClass}
+          >
+            {[3, 4, 5, 6, 8].map(s => <option key={s} value={s}>{s} seconds</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-[10px] font-medium text-slate-500 uppercase tracking-wider mb-1">Title Card</label>
+          <select
+            value={options.includeTitleCard ? 'yes' : 'no'}
+            disabled={composing}
+            onChange={(e) => setOptions(prev => ({ ...prev, includeTitleCard: e.target.value === 'yes' }))}
+            className={selectClass}
+          >
+            <option value="yes">Address intro</option>
+            <option value="no">None</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-4 text-xs text-slate-600">
+        <label className={`px-3 py-1.5 rounded-lg border border-slate-300 bg-white ${composing ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-slate-50'}`}>
+          Add Photos…
+          <input type="file" accept="image/*" multiple className="hidden" onChange={handleAddPhotos} disabled={composing} />
+        </label>
+        <label className={`px-3 py-1.5 rounded-lg border border-slate-300 bg-white ${composing ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-slate-50'}`}>
+          {options.audio ? `Music: ${options.audio.name}` : 'Add Music (optional)…'}
+          <input
+            type="file"
+            accept="audio/*"
+            className="hidden"
+            disabled={composing}
+            onChange={(e) => setOptions(prev => ({ ...prev, audio: e.target.files?.[0] || null }))}
+          />
+        </label>
+        {options.audio && !composing && (
+          <button onClick={() => setOptions(prev => ({ ...prev, audio: null }))} className="text-slate-400 hover:text-red-600">
+            Remove music
+          </button>
+        )}
+        <span className="text-slate-400">{allImages.length} photo(s)</span>
+      </div>
+
+      {composing ? (
+        <div className="space-y-2">
+          <div className="w-full h-2 bg-slate-100 rounded-full overflow-hidden">
+            <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.round(progress! * 100)}%` }}></div>
+          </div>
+          <div className="flex items-center justify-between text-xs text-slate-500">
+            <span>Recording slideshow... keep this tab open ({Math.round(progress! * 100)}%)</span>
+            <button onClick={() => abortRef.current?.abort()} className="text-red-600 hover:text-red-800 font-medium">Cancel</button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={handleCompose}
+          disabled={allImages.length === 0}
+          className="w-full bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          Create Slideshow
+        </button>
+      )}
+
+      {allImages.length === 0 && (
+        <p className="text-xs text-slate-400 mt-2">Upload a front or back photo, or add photos here, to build a slideshow.</p>
+      )}
+      {error && (
+        <p className="text-xs text-red-500 mt-2">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default SlideshowComposer;
@@ -0,0 +1,258 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PropertyDetails, SocialExportOptions, SocialPlatform, VideoSearchResult } from '../types';
+import {
+  PLATFORM_SPECS,
+  SocialExport,
+  defaultCaptionAddress,
+  exportFileName,
+  exportSocialVariants,
+  isSocialExportSupported
+} from '../services/socialExport';
+import { fileExtensionFor } from '../services/canvasVideo';
+import { isAbortError } from '../services/abort';
+
+interface SocialExportModalProps {
+  video: VideoSearchResult;
+  details: PropertyDetails;
+  onClose: () => void;
+}
+
+const PLATFORMS = Object.keys(PLATFORM_SPECS) as SocialPlatform[];
+
+const formatSeconds = (seconds: number) =>
+  seconds >= 60 ? `${Math.floor(seconds / 60)}m${seconds % 60 ? ` ${Math.round(seconds % 60)}s` : ''}` : `${Math.round(seconds)}s`;
+
+const SocialExportModal: React.FC<SocialExportModalProps> = ({ video, details, onClose }) => {
+  const [platforms, setPlatforms] = useState<SocialPlatform[]>(['reels', 'tiktok', 'shorts', 'mls']);
+  const [options, setOptions] = useState<SocialExportOptions>({
+    fit: 'crop',
+    focusX: 0.5,
+    captions: { enabled: true, address: defaultCaptionAddress(details), price: '' }
+  });
+  const [progress, setProgress] = useState<{ platform: SocialPlatform; fraction: number } | null>(null);
+  const [exports, setExports] = useState<{ result: SocialExport; url: string }[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const urlsRef = useRef<string[]>([]);
+
+  const exporting = progress !== null;
+  const inputClass = "w-full px-2 py-1.5 border border-slate-300 rounded-md bg-white text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-60";
+  const labelClass = "block text-[10px] font-medium text-slate-500 uppercase tracking-wider mb-1";
+
+  // Stop any recording and free the exported files when the modal goes away
+  useEffect(() => () => {
+    abortRef.current?.abort();
+    urlsRef.current.forEach(url => URL.revokeObjectURL(url));
+  }, []);
+
+  const togglePlatform = (platform: SocialPlatform) => {
+    setPlatforms(prev => prev.includes(platform) ? prev.filter(p => p !== platform) : [...prev, platform]);
+  };
+
+  const setCaptions = (changes: Partial<SocialExportOptions['captions']>) => {
+    setOptions(prev => ({ ...prev, captions: { ...prev.captions, ...changes } }));
+  };
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    // Keep the table order rather than the order boxes were ticked
+    const selected = PLATFORMS.filter(p => platforms.includes(p));
+    setProgress({ platform: selected[0], fraction: 0 });
+    try {
+      await exportSocialVariants(video.uri, selected, options, {
+        signal: controller.signal,
+        onProgress: (platform, fraction) => setProgress({ platform, fraction }),
+        onExported: (result) => {
+          const url = URL.createObjectURL(result.blob);
+          urlsRef.current.push(url);
+          setExports(prev => [...prev.filter(e => e.result.platform !== result.platform), { result, url }]);
+        }
+      });
+    } catch (err: any) {
+      if (!isAbortError(err)) setError(err.message || "Export failed.");
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[130] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/50 backdrop-blur-sm" onClick={exporting ? undefined : onClose}></div>
+      <div className="relative bg-white rounded-2xl shadow-xl w-full max-w-2xl overflow-hidden max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <div className="min-w-0">
+            <h2 className="text-xl font-bold text-slate-900">Export for Social</h2>
+            <p className="text-xs text-slate-500 truncate">{video.title}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-6 space-y-5">
+          {!isSocialExportSupported() ? (
+            <p className="text-sm text-slate-500">
+              This browser can't record video. Try a recent version of Chrome, Edge, Firefox or Safari.
+            </p>
+          ) : (
+            <>
+              <div>
+                <label className={labelClass}>Formats</label>
+                <ul className="space-y-1">
+                  {PLATFORMS.map(platform => {
+                    const spec = PLATFORM_SPECS[platform];
+                    return (
+                      <li key={platform}>
+                        <label className="flex items-start gap-3 p-2 rounded-lg hover:bg-slate-50 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={platforms.includes(platform)}
+                            disabled={exporting}
+                            onChange={() => togglePlatform(platform)}
+                            className="mt-1 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                          />
+                          <span className="text-sm">
+                            <span className="font-medium text-slate-800">{spec.label}</span>
+                            <span className="text-slate-400"> • {spec.aspectRatio} • {spec.width}×{spec.height} • up to {formatSeconds(spec.maxSeconds)}</span>
+                            {spec.note && <span className="block text-xs text-slate-500">{spec.note}</span>}
+                          </span>
+                        </label>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className={labelClass}>Framing</label>
+                  <select
+                    value={options.fit}
+                    disabled={exporting}
+                    onChange={(e) => setOptions(prev => ({ ...prev, fit: e.target.value as SocialExportOptions['fit'] }))}
+                    className={inputClass}
+                  >
+                    <option value="crop">Crop to fill</option>
+                    <option value="pad">Fit whole video (blurred edges)</option>
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Crop Focus</label>
+                  <input
+                    type="range"
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={options.focusX}
+                    disabled={exporting || options.fit !== 'crop'}
+                    onChange={(e) => setOptions(prev => ({ ...prev, focusX: Number(e.target.value) }))}
+                    className="w-full mt-2 disabled:opacity-50"
+                  />
+                  <div className="flex justify-between text-[10px] text-slate-400">
+                    <span>Left</span><span>Center</span><span>Right</span>
+                  </div>
+                </div>
+              </div>
+
+              <div>
+                <label className="flex items-center gap-2 text-sm text-slate-700 mb-2">
+                  <input
+                    type="checkbox"
+                    checked={options.captions.enabled}
+                    disabled={exporting}
+                    onChange={(e) => setCaptions({ enabled: e.target.checked })}
+                    className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  Burn in address and price captions
+                </label>
+                {options.captions.enabled && (
+                  <div className="grid grid-cols-3 gap-3">
+                    <div className="col-span-2">
+                      <label className={labelClass}>Address</label>
+                      <input
+                        type="text"
+                        value={options.captions.address}
+                        disabled={exporting}
+                        onChange={(e) => setCaptions({ address: e.target.value })}
+                        className={inputClass}
+                      />
+                    </div>
+                    <div>
+                      <label className={labelClass}>Price</label>
+                      <input
+                        type="text"
+                        value={options.captions.price || ''}
+                        placeholder="$750,000"
+                        disabled={exporting}
+                        onChange={(e) => setCaptions({ price: e.target.value })}
+                        className={inputClass}
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {exporting ? (
+                <div className="space-y-2">
+                  <div className="w-full h-2 bg-slate-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.round(progress!.fraction * 100)}%` }}></div>
+                  </div>
+                  <div className="flex items-center justify-between text-xs text-slate-500">
+                    <span>Recording {PLATFORM_SPECS[progress!.platform].label}... keep this tab open ({Math.round(progress!.fraction * 100)}%)</span>
+                    <button onClick={() => abortRef.current?.abort()} className="text-red-600 hover:text-red-800 font-medium">Cancel</button>
+                  </div>
+                </div>
+              ) : (
+                <button
+                  onClick={handleExport}
+                  disabled={platforms.length === 0}
+                  className="w-full bg-indigo-600 hover:bg-indigo-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+                >
+                  Export {platforms.length} Format(s)
+                </button>
+              )}
+              {error && <p className="text-xs text-red-500">{error}</p>}
+
+              {exports.length > 0 && (
+                <ul className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+                  {exports.map(({ result, url }) => {
+                    const spec = PLATFORM_SPECS[result.platform];
+                    const isWebm = fileExtensionFor(result.mimeType) === 'webm';
+                    return (
+                      <li key={result.platform} className="p-3 flex items-center justify-between gap-3">
+                        <div className="min-w-0 text-sm">
+                          <p className="font-medium text-slate-800">{spec.label}</p>
+                          <p className="text-xs text-slate-500">
+                            {formatSeconds(result.durationSeconds)}
+                            {result.trimmed && ` • trimmed to the ${formatSeconds(spec.maxSeconds)} limit`}
+                          </p>
+                          {isWebm && !spec.acceptsWebm && (
+                            <p className="text-xs text-amber-600">This browser records WebM. Convert to MP4 before uploading.</p>
+                          )}
+                        </div>
+                        <a
+                          href={url}
+                          download={exportFileName(video, result)}
+                          className="px-3 py-1.5 rounded-lg text-xs font-medium bg-indigo-50 text-indigo-700 border border-indigo-200 hover:bg-indigo-100 transition-colors flex-shrink-0"
+                        >
+                          Download
+                        </a>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SocialExportModal;
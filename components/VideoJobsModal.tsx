@@ -0,0 +1,118 @@
+import React from 'react';
+import { VideoJob, VideoJobStatus } from '../types';
+
+interface VideoJobsModalProps {
+  jobs: VideoJob[];
+  onAddToResults?: (job: VideoJob) => void; // Only offered while a search is open
+  onCancel: (jobId: string) => void;
+  onRemove: (jobId: string) => void;
+  onClearFinished: () => void;
+  onClose: () => void;
+}
+
+const STATUS_STYLES: Record<VideoJobStatus, { label: string; className: string }> = {
+  pending: { label: 'Generating', className: 'bg-indigo-50 text-indigo-700 border-indigo-200' },
+  completed: { label: 'Ready', className: 'bg-green-50 text-green-700 border-green-200' },
+  failed: { label: 'Failed', className: 'bg-red-50 text-red-700 border-red-200' },
+  cancelled: { label: 'Cancelled', className: 'bg-slate-100 text-slate-500 border-slate-200' }
+};
+
+const elapsedLabel = (job: VideoJob) => {
+  const minutes = Math.floor(((job.status === 'pending' ? Date.now() : job.updatedAt) - job.createdAt) / 60000);
+  return minutes < 1 ? 'under a minute' : `${minutes} min`;
+};
+
+const VideoJobsModal: React.FC<VideoJobsModalProps> = ({ jobs, onAddToResults, onCancel, onRemove, onClearFinished, onClose }) => {
+  const hasFinished = jobs.some(job => job.status !== 'pending');
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/50 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative bg-white rounded-2xl shadow-xl w-full max-w-2xl overflow-hidden max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-100 flex justify-between items-center bg-slate-50">
+          <div>
+            <h2 className="text-xl font-bold text-slate-900">Video Jobs</h2>
+            <p className="text-xs text-slate-500">Veo generations keep running and are picked up again after a reload.</p>
+          </div>
+          <div className="flex items-center gap-3">
+            {hasFinished && (
+              <button onClick={onClearFinished} className="text-xs font-medium text-indigo-600 hover:text-indigo-800">
+                Clear finished
+              </button>
+            )}
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+              <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto">
+          {jobs.length === 0 ? (
+            <div className="p-8 text-center text-slate-500">
+              No video generations yet.
+            </div>
+          ) : (
+            <ul className="divide-y divide-slate-100">
+              {jobs.map(job => {
+                const status = STATUS_STYLES[job.status];
+                return (
+                  <li key={job.id} className="p-4">
+                    <div className="flex items-start justify-between gap-3">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-slate-800 truncate">{job.title}</p>
+                        <p className="text-xs text-slate-400">
+                          Started {new Date(job.createdAt).toLocaleString()} • {elapsedLabel(job)}
+                        </p>
+                        {job.error && <p className="text-xs text-red-500 mt-1">{job.error}</p>}
+                        {job.status === 'cancelled' && (
+                          <p className="text-xs text-slate-400 mt-1">No longer tracked. Veo may still finish and bill the generation.</p>
+                        )}
+                      </div>
+                      <span className={`px-2 py-0.5 rounded-full border text-[10px] font-semibold uppercase tracking-wide flex-shrink-0 flex items-center gap-1 ${status.className}`}>
+                        {job.status === 'pending' && (
+                          <svg className="animate-spin h-3 w-3" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
+                            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4z"></path>
+                          </svg>
+                        )}
+                        {status.label}
+                      </span>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-3 mt-2 text-xs font-medium">
+                      {job.status === 'completed' && job.result && (
+                        <>
+                          <a href={job.result.uri} target="_blank" rel="noopener noreferrer" className="text-indigo-600 hover:text-indigo-800">
+                            Open video
+                          </a>
+                          {job.kind === 'listing' && onAddToResults && (
+                            <button onClick={() => onAddToResults(job)} className="text-indigo-600 hover:text-indigo-800">
+                              Add to current results
+                            </button>
+                          )}
+                        </>
+                      )}
+                      {job.status === 'pending' ? (
+                        <button onClick={() => onCancel(job.id)} className="text-red-600 hover:text-red-800">
+                          Cancel
+                        </button>
+                      ) : (
+                        <button onClick={() => onRemove(job.id)} className="text-slate-400 hover:text-red-600">
+                          Remove
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VideoJobsModal;
@@ -0,0 +1,179 @@
+import React, { useEffect } from 'react';
+import { VideoSearchResult } from '../types';
+import { getEmbedUrl } from '../services/videoUrl';
+
+interface VideoPlayerModalProps {
+  videos: VideoSearchResult[];
+  index: number;
+  onIndexChange: (index: number) => void;
+  onDelete: (index: number) => void;
+  onExport?: (video: VideoSearchResult) => void;
+  onClose: () => void;
+}
+
+const VideoPlayerModal: React.FC<VideoPlayerModalProps> = ({ videos, index, onIndexChange, onDelete, onExport, onClose }) => {
+  const video = videos[index];
+  const hasPrev = index > 0;
+  const hasNext = index < videos.length - 1;
+
+  const goPrev = () => { if (hasPrev) onIndexChange(index - 1); };
+  const goNext = () => { if (hasNext) onIndexChange(index + 1); };
+  // Keeping a video just moves on to the next one
+  const keep = () => { if (hasNext) onIndexChange(index + 1); else onClose(); };
+  const remove = () => onDelete(index);
+
+  // Triage shortcuts: arrows/J/L to navigate, K to keep, D/Delete to remove, Esc to close
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Leave browser/OS shortcuts (Ctrl+D, Cmd+L, ...) and anything being typed or picked alone
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      const target = e.target;
+      if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return;
+      if (target instanceof HTMLElement && target.isContentEditable) return;
+      switch (e.key) {
+        case 'ArrowLeft':
+        case 'j':
+          goPrev();
+          break;
+        case 'ArrowRight':
+        case 'l':
+          goNext();
+          break;
+        case 'k':
+          keep();
+          break;
+        case 'd':
+        case 'Delete':
+          remove();
+          break;
+        case 'Escape':
+          onClose();
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  if (!video) return null;
+
+  const embedUrl = video.isGenerated ? null : getEmbedUrl(video.uri);
+
+  return (
+    <div className="fixed inset-0 z-[120] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/80 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative bg-white rounded-2xl shadow-xl w-full max-w-4xl overflow-hidden flex flex-col max-h-[95vh]">
+        <div className="px-6 py-4 border-b border-slate-100 flex justify-between items-center bg-slate-50 gap-4">
+          <div className="min-w-0">
+            <h2 className="text-base font-bold text-slate-900 truncate">{video.title}</h2>
+            <p className="text-xs text-slate-500 truncate">{video.source} • {index + 1} of {videos.length}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 flex-shrink-0" title="Close (Esc)">
+            <svg className="w-6 h-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="bg-black aspect-video w-full">
+          {video.isGenerated ? (
+            <video key={video.uri} src={video.uri} controls autoPlay className="w-full h-full">
+              Your browser does not support the video tag.
+            </video>
+          ) : embedUrl ? (
+            <iframe
+              key={embedUrl}
+              src={embedUrl}
+              title={video.title}
+              className="w-full h-full"
+              allow="autoplay; encrypted-media; fullscreen; picture-in-picture; xr-spatial-tracking"
+              allowFullScreen
+            />
+          ) : (
+            <div className="w-full h-full flex flex-col items-center justify-center text-center p-8 text-slate-300">
+              {video.thumbnailUrl && (
+                <img src={video.thumbnailUrl} alt="" className="max-h-40 rounded-lg mb-4 opacity-80" />
+              )}
+              <p className="text-sm mb-4">This video can't be played inside the app.</p>
+              <a
+                href={video.uri}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="bg-white text-slate-900 px-4 py-2 rounded-lg text-sm font-medium hover:bg-slate-100 transition-colors"
+              >
+                Open in new tab
+              </a>
+            </div>
+          )}
+        </div>
+
+        <div className="px-6 py-4 flex flex-wrap items-center justify-between gap-3 border-t border-slate-100">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={goPrev}
+              disabled={!hasPrev}
+              className="px-3 py-1.5 rounded-lg text-xs font-medium bg-white text-slate-600 border border-slate-300 hover:bg-slate-50 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Previous (←)"
+            >
+              ← Prev
+            </button>
+            <button
+              onClick={goNext}
+              disabled={!hasNext}
+              className="px-3 py-1.5 rounded-lg text-xs font-medium bg-white text-slate-600 border border-slate-300 hover:bg-slate-50 transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+              title="Next (→)"
+            >
+              Next →
+            </button>
+            <a
+              href={video.uri}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="px-3 py-1.5 text-xs font-medium text-indigo-600 hover:text-indigo-800"
+            >
+              Open original
+            </a>
+            {video.isGenerated && (
+              <a
+                href={video.uri}
+                download={video.title.replace(/[^\w\s-]/g, '').trim() || 'listing-video'}
+                className="px-3 py-1.5 text-xs font-medium text-indigo-600 hover:text-indigo-800"
+              >
+                Download
+              </a>
+            )}
+            {video.isGenerated && onExport && (
+              <button
+                onClick={() => onExport(video)}
+                className="px-3 py-1.5 text-xs font-medium text-indigo-600 hover:text-indigo-800"
+              >
+                Export for Social
+              </button>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={remove}
+              className="px-3 py-1.5 rounded-lg text-xs font-medium bg-red-50 text-red-700 border border-red-200 hover:bg-red-100 transition-colors"
+              title="Delete (D)"
+            >
+              Delete <kbd className="ml-1 text-[10px] text-red-400">D</kbd>
+            </button>
+            <button
+              onClick={keep}
+              className="px-3 py-1.5 rounded-lg text-xs font-medium bg-green-50 text-green-700 border border-green-200 hover:bg-green-100 transition-colors"
+              title="Keep (K)"
+            >
+              Keep <kbd className="ml-1 text-[10px] text-green-500">K</kbd>
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VideoPlayerModal;
@@ -1,13 +1,51 @@
 
-import React from 'react';
-import { VideoSearchResult } from '../types';
+import React, { useState } from 'react';
+import { VideoSearchResult, VideoContentType, VisualMatchVerdict, LinkType } from '../types';
+import { getConfidenceLevel, ConfidenceLevel } from '../services/scoring';
+
+const CONTENT_TYPE_LABELS: Record<VideoContentType, string> = {
+  'walkthrough': 'Walkthrough',
+  'drone': 'Drone',
+  '3d-tour': '3D Tour',
+  'listing': 'Listing Page',
+  'other': 'Video'
+};
+
+// Labels for the link classifier's verdict; 'unknown' (no rule matched) isn't worth a badge
+const LINK_TYPE_LABELS: Record<LinkType, string | null> = {
+  'video': 'Video link',
+  'short': 'Short',
+  '3d-tour': '3D tour link',
+  'social-post': 'Social post',
+  'listing': 'Listing link',
+  'channel': 'Channel',
+  'search-page': 'Search page',
+  'map': 'Map',
+  'homepage': 'Homepage',
+  'unrelated': 'Unrelated',
+  'invalid': 'Invalid link',
+  'unknown': null
+};
+
+const VISUAL_MATCH_STYLES: Record<VisualMatchVerdict, { label: string; className: string }> = {
+  match: { label: 'Photo match', className: 'bg-green-50 text-green-700 border-green-200' },
+  mismatch: { label: 'Different property?', className: 'bg-red-50 text-red-700 border-red-200' },
+  unknown: { label: 'Not verified', className: 'bg-slate-50 text-slate-500 border-slate-200' }
+};
+
+const CONFIDENCE_STYLES: Record<ConfidenceLevel, string> = {
+  high: 'bg-green-50 text-green-700 border-green-200',
+  medium: 'bg-amber-50 text-amber-700 border-amber-200',
+  low: 'bg-slate-100 text-slate-500 border-slate-200'
+};
 
 interface VideoResultProps {
   video: VideoSearchResult;
   onDelete: () => void;
+  onPlay?: () => void; // Opens the in-app player; without it the card links out
 }
 
-const VideoResult: React.FC<VideoResultProps> = ({ video, onDelete }) => {
+const VideoResult: React.FC<VideoResultProps> = ({ video, onDelete, onPlay }) => {
   const isYoutube = video.source.includes('youtube') || video.source.includes('youtu.be');
   const isVimeo = video.source.includes('vimeo');
   const isInstagram = video.source.includes('instagram');
@@ -17,14 +55,41 @@ const VideoResult: React.FC<VideoResultProps> = ({ video, onDelete }) => {
   if (isVimeo) iconColor = "bg-sky-100 text-sky-600";
   if (isInstagram) iconColor = "bg-pink-100 text-pink-600";
 
+  // Fall back to the platform icon when the thumbnail is missing or fails to load
+  const [thumbnailFailed, setThumbnailFailed] = useState(false);
+  const showThumbnail = !!video.thumbnailUrl && !thumbnailFailed;
+
+  const confidenceLevel = video.confidence !== undefined ? getConfidenceLevel(video.confidence) : null;
+  const linkTypeLabel = video.linkType ? LINK_TYPE_LABELS[video.linkType] : null;
+
   return (
     <div className="relative group bg-white rounded-xl shadow-sm border border-slate-100 hover:shadow-md hover:border-slate-300 transition-all duration-200">
       <a 
         href={video.uri} 
         target="_blank" 
         rel="noopener noreferrer"
+        onClick={(e) => {
+          // Modifier clicks keep the browser's open-in-new-tab behaviour
+          if (!onPlay || e.metaKey || e.ctrlKey || e.shiftKey) return;
+          e.preventDefault();
+          onPlay();
+        }}
         className="flex items-start p-4 w-full h-full"
       >
+        {showThumbnail ? (
+          <div className="relative flex-shrink-0 w-28 h-16 rounded-lg overflow-hidden bg-slate-100 mr-4">
+            <img
+              src={video.thumbnailUrl}
+              alt=""
+              loading="lazy"
+              onError={() => setThumbnailFailed(true)}
+              className="w-full h-full object-cover"
+            />
+            <div className="absolute inset-0 flex items-center justify-center bg-black/10 group-hover:bg-black/25 transition-colors">
+              <svg className="w-6 h-6 text-white drop-shadow" viewBox="0 0 24 24" fill="currentColor"><path d="M8 5v14l11-7z"/></svg>
+            </div>
+          </div>
+        ) : (
         <div className={`flex-shrink-0 w-12 h-12 rounded-lg ${iconColor} flex items-center justify-center mr-4`}>
           {isYoutube ? (
               <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="currentColor"><path d="M19.615 3.184c-3.604-.246-11.631-.245-15.23 0-3.897.266-4.356 2.62-4.385 8.816.029 6.185.484 8.549 4.385 8.816 3.6.245 11.626.246 15.23 0 3.897-.266 4.356-2.62 4.385-8.816-.029-6.185-.484-8.549-4.385-8.816zm-10.615 12.816v-8l8 3.993-8 4.007z"/></svg>
@@ -36,15 +101,69 @@ const VideoResult: React.FC<VideoResultProps> = ({ video, onDelete }) => {
                <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polygon points="23 7 16 12 23 17 23 7"/><rect x="1" y="5" width="15" height="14" rx="2" ry="2"/></svg>
           )}
         </div>
+        )}
         <div className="flex-grow min-w-0">
-          <h3 className="text-sm font-semibold text-slate-900 group-hover:text-blue-600 truncate mb-1">
-            {video.title}
-          </h3>
-          <p className="text-xs text-slate-500 mb-2 truncate">
-            {video.source}
+          <div className="flex items-center gap-2 mb-1 pr-6">
+            <h3 className="text-sm font-semibold text-slate-900 group-hover:text-blue-600 truncate">
+              {video.title}
+            </h3>
+            {confidenceLevel && (
+              <span
+                className={`flex-shrink-0 text-[10px] font-semibold uppercase tracking-wide px-1.5 py-0.5 rounded-full border ${CONFIDENCE_STYLES[confidenceLevel]}`}
+                title={video.confidenceReasons?.join('\n')}
+              >
+                {confidenceLevel} {video.confidence}%
+              </span>
+            )}
+          </div>
+          <p className="text-xs text-slate-500 mb-2 truncate flex items-center gap-1.5">
+            {video.contentType && (
+              <span className="flex-shrink-0 text-[10px] font-semibold uppercase tracking-wide bg-indigo-50 text-indigo-600 px-1.5 py-0.5 rounded border border-indigo-100">
+                {CONTENT_TYPE_LABELS[video.contentType]}
+              </span>
+            )}
+            {linkTypeLabel && (
+              <span className="flex-shrink-0 text-[10px] font-semibold uppercase tracking-wide bg-slate-50 text-slate-500 px-1.5 py-0.5 rounded border border-slate-200">
+                {linkTypeLabel}
+              </span>
+            )}
+            {video.availability === 'unavailable' && (
+              <span
+                className="flex-shrink-0 text-[10px] font-semibold uppercase tracking-wide bg-red-50 text-red-600 px-1.5 py-0.5 rounded border border-red-100"
+                title={video.lastCheckedAt ? `Checked ${new Date(video.lastCheckedAt).toLocaleString()}` : undefined}
+              >
+                Dead link
+              </span>
+            )}
+            <span className="truncate">{video.platform ? `${video.platform} • ${video.source}` : video.source}</span>
           </p>
+          {confidenceLevel && video.confidenceReasons && video.confidenceReasons.length > 0 && (
+            <p className="text-[11px] text-slate-400 mb-2 truncate">
+              {video.confidenceReasons.slice(0, 2).join(' • ')}
+            </p>
+          )}
+          {linkTypeLabel && video.linkReason && (
+            <p className="text-[11px] text-slate-400 mb-2 truncate">
+              {video.linkReason}
+            </p>
+          )}
+          {video.visualMatch && (
+            <p className="text-[11px] mb-2 flex items-start gap-1.5 min-w-0">
+              <span className={`flex-shrink-0 font-semibold px-1.5 py-0.5 rounded border ${VISUAL_MATCH_STYLES[video.visualMatch].className}`}>
+                {VISUAL_MATCH_STYLES[video.visualMatch].label}
+              </span>
+              {video.visualMatchRationale && (
+                <span className="text-slate-400 line-clamp-2">{video.visualMatchRationale}</span>
+              )}
+            </p>
+          )}
+          {video.reason && (
+            <p className="text-xs text-slate-400 mb-2 line-clamp-2">
+              {video.reason}
+            </p>
+          )}
           <div className="flex items-center text-xs text-blue-500 font-medium">
-            View Video
+            {onPlay ? 'Play Video' : 'View Video'}
             <svg className="w-3 h-3 ml-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M14 5l7 7m0 0l-7 7m7-7H3" />
             </svg>
@@ -0,0 +1,279 @@
+// Gemini API proxy. Keeps GEMINI_API_KEY (and YOUTUBE_API_KEY) on the server: the browser
+// sends its Firebase ID token and gets search results, Veo operations and video bytes back.
+//
+//   npm run api-server
+//
+// Reads GEMINI_API_KEY and FIREBASE_PROJECT_ID (or VITE_FIREBASE_PROJECT_ID) from the
+// environment or .env.local. API_REQUIRE_AUTH=false skips token checks for local work
+// without Firebase; never deploy it that way.
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { randomBytes } from "node:crypto";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+import { SearchStreamEvent, VideoOperation } from "../types";
+import {
+  fetchGeneratedVideo,
+  getVideoOperationState,
+  searchPropertyVideos,
+  startListingVideo,
+  startPromotionalVideo,
+  verifyVideosVisually
+} from "../services/geminiService";
+import { hasYouTubeApiKey, searchYouTubeVideos } from "../services/youtubeService";
+import { GeminiErrorKind, toGeminiServiceError } from "../services/errors";
+import { isAbortError } from "../services/abort";
+import { AuthError, VerifiedUser, verifyIdToken } from "./firebaseAuth";
+import { createVideoJobSigner, createVideoLinkSigner } from "./videoLinks";
+
+// Same files Vite reads; values already in the environment win, then .env.local over .env
+for (const file of [".env.local", ".env"]) {
+  try {
+    process.loadEnvFile(file);
+  } catch (e) {
+    // Optional
+  }
+}
+
+const port = Number(process.env.API_PORT || 8787);
+const projectId = process.env.FIREBASE_PROJECT_ID || process.env.VITE_FIREBASE_PROJECT_ID || "";
+const requireAuth = process.env.API_REQUIRE_AUTH !== "false";
+const allowedOrigin = process.env.API_ALLOWED_ORIGIN || "*";
+const MAX_BODY_BYTES = 25 * 1024 * 1024; // Two photos as base64, with room to spare
+
+if (requireAuth && !projectId) {
+  console.error("Set FIREBASE_PROJECT_ID (or VITE_FIREBASE_PROJECT_ID) so ID tokens can be checked, or API_REQUIRE_AUTH=false for local development.");
+  process.exit(1);
+}
+
+if (!process.env.API_LINK_SECRET) {
+  console.warn("API_LINK_SECRET is not set; generated video links and running Veo jobs will stop working when the server restarts.");
+}
+const linkSecret = process.env.API_LINK_SECRET || randomBytes(32).toString("hex");
+const links = createVideoLinkSigner(linkSecret);
+const jobs = createVideoJobSigner(linkSecret);
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+  }
+}
+
+const ERROR_STATUS: Record<GeminiErrorKind, number> = {
+  'missing-key': 503,
+  'auth-required': 401,
+  'invalid-key': 502,
+  'quota': 429,
+  'safety': 422,
+  'network': 504,
+  'model-unavailable': 503,
+  'unknown': 500
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, error: unknown) => {
+  if (error instanceof AuthError) {
+    sendJson(res, 401, { error: { kind: 'auth-required', message: error.message } });
+  } else if (error instanceof HttpError) {
+    sendJson(res, error.status, { error: { kind: 'unknown', message: error.message } });
+  } else {
+    const serviceError = toGeminiServiceError(error);
+    sendJson(res, ERROR_STATUS[serviceError.kind], { error: { kind: serviceError.kind, message: serviceError.message } });
+  }
+};
+
+const readJson = async (req: IncomingMessage): Promise<any> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, "Request body is too large.");
+    chunks.push(chunk);
+  }
+  try {
+    return chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString("utf8")) : {};
+  } catch (e) {
+    throw new HttpError(400, "Request body is not valid JSON.");
+  }
+};
+
+// Resolves to null when auth is turned off
+const authenticate = async (req: IncomingMessage): Promise<VerifiedUser | null> => {
+  if (!requireAuth) return null;
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization || "");
+  if (!match) throw new AuthError("Sign in to use Gemini features.");
+  return verifyIdToken(match[1], projectId);
+};
+
+// Stop Gemini work when the browser goes away mid-request
+const abortOnDisconnect = (res: ServerResponse): AbortSignal => {
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+};
+
+const requireDetails = (details: any) => {
+  if (!details?.street || !details?.city || !details?.state || !details?.zip) {
+    throw new HttpError(400, "Property details are incomplete.");
+  }
+};
+
+type Handler = (req: IncomingMessage, res: ServerResponse, url: URL) => Promise<void>;
+// Null user when auth is turned off
+type AccountHandler = (req: IncomingMessage, res: ServerResponse, url: URL, user: VerifiedUser | null) => Promise<void>;
+
+// Progress streams as one JSON object per line; the last line is the result or an error
+const handleSearch: Handler = async (req, res) => {
+  const { details, frontImage, backImage } = await readJson(req);
+  requireDetails(details);
+  const signal = abortOnDisconnect(res);
+  const send = (event: SearchStreamEvent) => res.write(`${JSON.stringify(event)}\n`);
+
+  res.writeHead(200, { "Content-Type": "application/x-ndjson", "Cache-Control": "no-cache" });
+  try {
+    const response = await searchPropertyVideos(details, frontImage || null, backImage || null, {
+      signal,
+      onProgress: progress => send({ type: 'progress', progress })
+    });
+    send({ type: 'result', response });
+  } catch (error) {
+    if (!signal.aborted) {
+      const serviceError = toGeminiServiceError(error);
+      send({ type: 'error', error: { kind: serviceError.kind, message: serviceError.message } });
+    }
+  }
+  res.end();
+};
+
+const handleVerifyVisual: Handler = async (req, res) => {
+  const { videos, frontImage, backImage } = await readJson(req);
+  if (!Array.isArray(videos)) throw new HttpError(400, "Expected a list of videos.");
+  sendJson(res, 200, await verifyVideosVisually(videos, frontImage || null, backImage || null, abortOnDisconnect(res)));
+};
+
+const handleYouTubeSearch: Handler = async (req, res) => {
+  const { details } = await readJson(req);
+  requireDetails(details);
+  if (!hasYouTubeApiKey()) throw new HttpError(503, "YouTube search is not set up on the API server (YOUTUBE_API_KEY).");
+  sendJson(res, 200, { videos: await searchYouTubeVideos(details, abortOnDisconnect(res)) });
+};
+
+// With auth off every caller is the same local user
+const ownerId = (user: VerifiedUser | null) => user?.uid || "";
+
+const withJobToken = ({ operationName }: VideoOperation, user: VerifiedUser | null): VideoOperation =>
+  ({ operationName, jobToken: jobs.sign(ownerId(user), operationName) });
+
+const handleListingVideo: AccountHandler = async (req, res, _url, user) => {
+  const { details, images, options } = await readJson(req);
+  requireDetails(details);
+  sendJson(res, 200, withJobToken(await startListingVideo(details, images || {}, options), user));
+};
+
+const handlePromoVideo: AccountHandler = async (req, res, _url, user) => {
+  sendJson(res, 200, withJobToken(await startPromotionalVideo(), user));
+};
+
+const handleVideoStatus: AccountHandler = async (req, res, _url, user) => {
+  const { operationName, jobToken } = await readJson(req);
+  if (typeof operationName !== "string" || !operationName) throw new HttpError(400, "Missing operationName.");
+  if (typeof jobToken !== "string" || !jobs.verify(ownerId(user), operationName, jobToken)) {
+    throw new HttpError(403, "This video job was started by another account.");
+  }
+  const state = await getVideoOperationState({ operationName });
+  sendJson(res, 200, state.state === 'done' ? { ...state, uri: links.sign(state.uri) } : state);
+};
+
+// Streams the Gemini file through, passing Range requests on so the player can seek
+const handleVideoFile: Handler = async (req, res, url) => {
+  const fileUri = links.verify(url.searchParams);
+  if (!fileUri) throw new HttpError(403, "This video link is invalid or has expired.");
+  const upstream = await fetchGeneratedVideo(fileUri, req.headers.range ? { Range: req.headers.range } : {}, abortOnDisconnect(res));
+  if (!upstream.ok || !upstream.body) {
+    throw new HttpError(upstream.status === 404 ? 404 : 502, "Could not fetch the generated video.");
+  }
+
+  const headers: Record<string, string> = { "Cache-Control": "private, max-age=3600" };
+  ["content-type", "content-length", "content-range", "accept-ranges"].forEach(name => {
+    const value = upstream.headers.get(name);
+    if (value) headers[name] = value;
+  });
+  res.writeHead(upstream.status, headers);
+  try {
+    await pipeline(Readable.fromWeb(upstream.body as unknown as NodeReadableStream), res);
+  } catch (error) {
+    // Players drop the connection whenever they seek or close; that's not a failure
+    if (isAbortError(error) || (error as NodeJS.ErrnoException).code === "ERR_STREAM_PREMATURE_CLOSE") return;
+    throw error;
+  }
+};
+
+const withAuth = (handler: Handler): Handler => async (req, res, url) => {
+  await authenticate(req);
+  await handler(req, res, url);
+};
+
+// Veo generations are paid, and anyone can mint an anonymous token, so guests are refused
+const withAccount = (handler: AccountHandler): Handler => async (req, res, url) => {
+  const user = await authenticate(req);
+  if (user?.signInProvider === 'anonymous') {
+    throw new HttpError(403, "Sign in with Google to generate videos.");
+  }
+  await handler(req, res, url, user);
+};
+
+// The video stream is authorised by its signature: a <video src> can't send a token
+const ROUTES: Record<string, Handler> = {
+  "POST /api/search": withAuth(handleSearch),
+  "POST /api/verify-visual": withAuth(handleVerifyVisual),
+  "POST /api/youtube/search": withAuth(handleYouTubeSearch),
+  "POST /api/videos/listing": withAccount(handleListingVideo),
+  "POST /api/videos/promo": withAccount(handlePromoVideo),
+  "POST /api/videos/status": withAccount(handleVideoStatus),
+  "GET /api/videos/file": handleVideoFile
+};
+
+const server = createServer(async (req, res) => {
+  res.setHeader("Access-Control-Allow-Origin", allowedOrigin);
+  res.setHeader("Vary", "Origin");
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, {
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Authorization, Content-Type, Range",
+      "Access-Control-Max-Age": "600"
+    });
+    res.end();
+    return;
+  }
+
+  const url = new URL(req.url || "/", "http://localhost");
+  const route = ROUTES[`${req.method} ${url.pathname}`];
+  try {
+    if (!route) throw new HttpError(404, "Not found.");
+    await route(req, res, url);
+  } catch (error) {
+    if (isAbortError(error)) {
+      res.destroy();
+      return;
+    }
+    if (!(error instanceof AuthError) && !(error instanceof HttpError)) {
+      console.error(`${req.method} ${url.pathname} failed:`, error);
+    }
+    if (res.headersSent) res.end();
+    else sendError(res, error);
+  }
+});
+
+server.listen(port, () => {
+  console.log(`API server listening on http://localhost:${port}${requireAuth ? "" : " (auth disabled)"}.`);
+});
@@ -0,0 +1,43 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { SavedSearch, WatchAlert } from "../types";
+import { WatchStore } from "../services/watchlist";
+
+interface WatchFile {
+  searches: SavedSearch[];
+  alerts: WatchAlert[];
+}
+
+// JSON file store for running the watch worker locally. The file holds
+// { searches, alerts }; a bare array of searches (e.g. the app's
+// localStorage "re_app_searches" value) is accepted as a starting point.
+export const createFileWatchStore = (path: string): WatchStore => {
+  const load = async (): Promise<WatchFile> => {
+    try {
+      const data = JSON.parse(await readFile(path, "utf8"));
+      return Array.isArray(data) ? { searches: data, alerts: [] } : { searches: data.searches || [], alerts: data.alerts || [] };
+    } catch (e: any) {
+      if (e.code === "ENOENT") return { searches: [], alerts: [] };
+      throw e;
+    }
+  };
+  const save = (data: WatchFile) => writeFile(path, JSON.stringify(data, null, 2));
+
+  return {
+    listWatchedSearches: async (userId) => {
+      const { searches } = await load();
+      return searches.filter(s => s.watched && (!userId || s.userId === userId));
+    },
+    updateSearch: async (search) => {
+      const data = await load();
+      data.searches = data.searches.map(s => s.id === search.id ? search : s);
+      await save(data);
+    },
+    addAlerts: async (alerts) => {
+      const data = await load();
+      const stored = alerts.map((alert, idx) => ({ ...alert, id: `local-${Date.now()}-${idx}` }));
+      data.alerts.push(...stored);
+      await save(data);
+      return stored;
+    }
+  };
+};
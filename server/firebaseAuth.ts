@@ -0,0 +1,69 @@
+import { createVerify } from "node:crypto";
+
+// Firebase ID token checks without the Admin SDK: the same rules it applies, against
+// the signing certificates Google publishes for Firebase Auth.
+const CERTS_URL = "https://www.googleapis.com/robot/v1/metadata/x509/securetoken@system.gserviceaccount.com";
+// Tokens from the Auth emulator are unsigned
+const EMULATOR = !!process.env.FIREBASE_AUTH_EMULATOR_HOST;
+
+export class AuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+export interface VerifiedUser {
+  uid: string;
+  email?: string;
+  signInProvider?: string; // e.g. "google.com", or "anonymous" for guests
+}
+
+let certCache: { certs: Record<string, string>; expiresAt: number } | null = null;
+
+const getSigningCerts = async (): Promise<Record<string, string>> => {
+  if (certCache && certCache.expiresAt > Date.now()) return certCache.certs;
+  const res = await fetch(CERTS_URL);
+  if (!res.ok) throw new Error(`Could not fetch Firebase signing certificates (${res.status})`);
+  // Google rotates the keys; its Cache-Control says how long this set is good for
+  const maxAge = Number(/max-age=(\d+)/.exec(res.headers.get("cache-control") || "")?.[1] || 3600);
+  certCache = { certs: await res.json(), expiresAt: Date.now() + maxAge * 1000 };
+  return certCache.certs;
+};
+
+const decodeSegment = (segment: string): any => {
+  try {
+    return JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+  } catch (e) {
+    throw new AuthError("Malformed ID token.");
+  }
+};
+
+export const verifyIdToken = async (token: string, projectId: string): Promise<VerifiedUser> => {
+  const [headerPart, payloadPart, signaturePart] = token.split(".");
+  if (!headerPart || !payloadPart) throw new AuthError("Malformed ID token.");
+  const header = decodeSegment(headerPart);
+  const payload = decodeSegment(payloadPart);
+
+  if (!EMULATOR) {
+    if (header.alg !== "RS256" || !signaturePart) throw new AuthError("ID token has an unexpected signing algorithm.");
+    const cert = (await getSigningCerts())[header.kid];
+    if (!cert) throw new AuthError("ID token was signed with an unknown key.");
+    const verifier = createVerify("RSA-SHA256");
+    verifier.update(`${headerPart}.${payloadPart}`);
+    if (!verifier.verify(cert, Buffer.from(signaturePart, "base64url"))) {
+      throw new AuthError("ID token signature is invalid.");
+    }
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (payload.aud !== projectId || payload.iss !== `https://securetoken.google.com/${projectId}`) {
+    throw new AuthError("ID token belongs to a different Firebase project.");
+  }
+  if (typeof payload.exp !== "number" || payload.exp <= now) throw new AuthError("ID token has expired.");
+  // A few minutes of clock skew
+  if (typeof payload.iat !== "number" || payload.iat > now + 300) throw new AuthError("ID token was issued in the future.");
+  if (typeof payload.sub !== "string" || !payload.sub) throw new AuthError("ID token has no user.");
+
+  return { uid: payload.sub, email: payload.email, signInProvider: payload.firebase?.sign_in_provider };
+};
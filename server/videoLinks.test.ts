@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { createVideoJobSigner, createVideoLinkSigner } from "./videoLinks";
+
+describe("createVideoLinkSigner", () => {
+  const links = createVideoLinkSigner("secret");
+
+  it("verifies its own links and rejects tampered ones", () => {
+    const params = new URL(links.sign("https://files.example.com/veo.mp4"), "http://localhost").searchParams;
+    expect(links.verify(params)).toBe("https://files.example.com/veo.mp4");
+
+    params.set("file", "https://files.example.com/other.mp4");
+    expect(links.verify(params)).toBeNull();
+  });
+});
+
+describe("createVideoJobSigner", () => {
+  const jobs = createVideoJobSigner("secret");
+  const token = jobs.sign("alice", "operations/1");
+
+  it("accepts the account that started the job", () => {
+    expect(jobs.verify("alice", "operations/1", token)).toBe(true);
+  });
+
+  it("refuses other accounts, other operations and other secrets", () => {
+    expect(jobs.verify("bob", "operations/1", token)).toBe(false);
+    expect(jobs.verify("alice", "operations/2", token)).toBe(false);
+    expect(jobs.verify("alice", "operations/1", "")).toBe(false);
+    expect(createVideoJobSigner("other").verify("alice", "operations/1", token)).toBe(false);
+  });
+});
@@ -0,0 +1,57 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+// Veo keeps generated files for two days; links live as long as the file does
+const LINK_TTL_MS = 2 * 24 * 60 * 60 * 1000;
+
+export interface VideoLinkSigner {
+  // Path on the API server that streams the Gemini file
+  sign: (fileUri: string) => string;
+  // The file URI a signed link points at, or null when the link is forged or expired
+  verify: (params: URLSearchParams) => string | null;
+}
+
+const signaturesMatch = (expected: string, actual: string): boolean => {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && timingSafeEqual(a, b);
+};
+
+// Signed links let a plain <video src> play generated clips: no API key in the URL,
+// and no ID token either (it would expire after an hour inside saved searches).
+export const createVideoLinkSigner = (secret: string): VideoLinkSigner => {
+  const signature = (fileUri: string, expires: number) =>
+    createHmac("sha256", secret).update(`${fileUri}\n${expires}`).digest("base64url");
+
+  return {
+    sign: (fileUri) => {
+      const expires = Date.now() + LINK_TTL_MS;
+      const params = new URLSearchParams({ file: fileUri, expires: String(expires), sig: signature(fileUri, expires) });
+      return `/api/videos/file?${params}`;
+    },
+    verify: (params) => {
+      const fileUri = params.get("file");
+      const expires = Number(params.get("expires"));
+      const sig = params.get("sig") || "";
+      if (!fileUri || !Number.isFinite(expires) || expires < Date.now()) return null;
+      return signaturesMatch(signature(fileUri, expires), sig) ? fileUri : null;
+    }
+  };
+};
+
+export interface VideoJobSigner {
+  // Token handed back with a started operation, naming the account that started it
+  sign: (userId: string, operationName: string) => string;
+  verify: (userId: string, operationName: string, token: string) => boolean;
+}
+
+// Operation names are not secret (they show up in logs and storage), so /status only
+// answers the account holding the token from the start call.
+export const createVideoJobSigner = (secret: string): VideoJobSigner => {
+  const signature = (userId: string, operationName: string) =>
+    createHmac("sha256", secret).update(`job\n${userId}\n${operationName}`).digest("base64url");
+
+  return {
+    sign: signature,
+    verify: (userId, operationName, token) => signaturesMatch(signature(userId, operationName), token)
+  };
+};
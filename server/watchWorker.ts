@@ -0,0 +1,50 @@
+// Background watchlist checker.
+//
+//   npm run watch-worker -- --store watchlist.json --provider mock --once
+//
+// Re-runs every due watched search in the store, re-checks its links and
+// records alerts for new or dead videos. Without --once it keeps polling.
+import { createFileWatchStore } from "./fileWatchStore";
+import { runDueWatchChecks } from "../services/watchlist";
+
+const readArg = (name: string, fallback: string): string => {
+  const idx = process.argv.indexOf(`--${name}`);
+  return idx !== -1 && process.argv[idx + 1] ? process.argv[idx + 1] : fallback;
+};
+
+const storePath = readArg("store", "watchlist.json");
+const provider = readArg("provider", "mock");
+const pollMinutes = Math.max(1, Number(readArg("poll", "5")) || 5);
+const once = process.argv.includes("--once");
+
+// The shared services read their configuration from the environment
+process.env.VITE_VIDEO_SEARCH_PROVIDERS = provider;
+
+const store = createFileWatchStore(storePath);
+const controller = new AbortController();
+let timer: NodeJS.Timeout | undefined;
+
+const tick = async () => {
+  const startedAt = new Date().toISOString();
+  try {
+    const alerts = await runDueWatchChecks(store, { signal: controller.signal });
+    console.log(`[${startedAt}] Watch check complete, ${alerts.length} new alert(s).`);
+    alerts.forEach(alert => {
+      const label = alert.kind === 'new-videos' ? 'New videos' : 'Dead videos';
+      console.log(`  ${label} for "${alert.searchTitle}":`);
+      alert.videos.forEach(video => console.log(`    - ${video.title} (${video.uri})`));
+    });
+  } catch (err) {
+    if (controller.signal.aborted) return;
+    console.error(`[${startedAt}] Watch check failed:`, err);
+  }
+  if (!once && !controller.signal.aborted) timer = setTimeout(tick, pollMinutes * 60 * 1000);
+};
+
+process.on("SIGINT", () => {
+  controller.abort();
+  clearTimeout(timer);
+});
+
+console.log(`Watching ${storePath} with the "${provider}" provider${once ? "" : `, polling every ${pollMinutes} min`}.`);
+tick();
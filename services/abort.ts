@@ -0,0 +1,31 @@
+// Helpers for threading an AbortSignal through multi-stage async work
+
+export const createAbortError = (): DOMException =>
+  new DOMException("The search was cancelled.", "AbortError");
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException ? error.name === "AbortError" : (error as any)?.name === "AbortError";
+
+export const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw createAbortError();
+};
+
+// Fetch that gives up after `timeoutMs` and also stops when the caller's signal aborts
+export const fetchWithTimeout = async (
+  url: string,
+  init: RequestInit = {},
+  timeoutMs: number = 5000,
+  signal?: AbortSignal
+): Promise<Response> => {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener("abort", onAbort);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener("abort", onAbort);
+  }
+};
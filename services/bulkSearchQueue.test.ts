@@ -0,0 +1,90 @@
+import { describe, expect, it, vi } from "vitest";
+import { BulkSearchRow, SearchResponse } from "../types";
+import { createBulkSearchQueue } from "./bulkSearchQueue";
+
+const row = (id: string): BulkSearchRow => ({
+  id,
+  line: 2,
+  details: { street: `${id} Main St`, city: "Springfield", state: "IL", zip: "62701", mlsNumber: id },
+  status: 'pending'
+});
+
+const response: SearchResponse = { summary: "ok", videos: [], found: false };
+
+// A search whose calls resolve when the test says so and reject when aborted
+const controllableSearch = () => {
+  const calls = new Map<string, () => void>();
+  const search = vi.fn((row: BulkSearchRow, signal: AbortSignal) => new Promise<SearchResponse>((resolve, reject) => {
+    calls.set(row.id, () => resolve(response));
+    signal.addEventListener('abort', () => reject(new DOMException("Aborted", "AbortError")));
+  }));
+  return { search, finish: (id: string) => calls.get(id)!() };
+};
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe("createBulkSearchQueue", () => {
+  it("runs at most `concurrency` rows and reports idle once done", async () => {
+    const { search, finish } = controllableSearch();
+    const onIdle = vi.fn();
+    const rows = [row("a"), row("b"), row("c")];
+    createBulkSearchQueue(rows, { concurrency: 2, onRowUpdate: () => {}, onIdle, search }).start();
+
+    expect(search.mock.calls.map(([r]) => r.id)).toEqual(["a", "b"]);
+    finish("a");
+    await settle();
+    expect(search.mock.calls.map(([r]) => r.id)).toEqual(["a", "b", "c"]);
+    finish("b");
+    finish("c");
+    await settle();
+    expect(rows.map(r => r.status)).toEqual(['done', 'done', 'done']);
+    expect(onIdle).toHaveBeenCalledTimes(1);
+  });
+
+  it("starts nothing new while paused and picks up again on resume", async () => {
+    const { search, finish } = controllableSearch();
+    const onIdle = vi.fn();
+    const queue = createBulkSearchQueue([row("a"), row("b")], { concurrency: 1, onRowUpdate: () => {}, onIdle, search });
+    queue.start();
+    queue.pause();
+    expect(queue.isPaused()).toBe(true);
+
+    finish("a");
+    await settle();
+    expect(search).toHaveBeenCalledTimes(1);
+    expect(onIdle).not.toHaveBeenCalled();
+
+    queue.resume();
+    expect(search).toHaveBeenCalledTimes(2);
+    finish("b");
+    await settle();
+    expect(onIdle).toHaveBeenCalledTimes(1);
+  });
+
+  it("cancels pending rows, aborts running ones and reports idle once", async () => {
+    const { search } = controllableSearch();
+    const onIdle = vi.fn();
+    const rows = [row("a"), row("b"), row("c")];
+    const queue = createBulkSearchQueue(rows, { concurrency: 2, onRowUpdate: () => {}, onIdle, search });
+    queue.start();
+
+    queue.cancel();
+    await settle();
+    expect(rows.map(r => r.status)).toEqual(['cancelled', 'cancelled', 'cancelled']);
+    expect(search).toHaveBeenCalledTimes(2);
+    expect(onIdle).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports idle once when cancelled with nothing running", async () => {
+    const { search } = controllableSearch();
+    const onIdle = vi.fn();
+    const queue = createBulkSearchQueue([row("a")], { concurrency: 1, onRowUpdate: () => {}, onIdle, search });
+    queue.pause();
+    queue.start();
+    queue.cancel();
+    queue.resume();
+    await settle();
+    expect(search).not.toHaveBeenCalled();
+    expect(onIdle).toHaveBeenCalledTimes(1);
+  });
+});
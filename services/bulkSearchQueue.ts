@@ -0,0 +1,95 @@
+import { BulkSearchRow, SearchResponse } from "../types";
+import { searchVideos } from "./videoSearchService";
+import { isAbortError } from "./abort";
+import { describeError } from "./errors";
+
+export interface BulkSearchQueueOptions {
+  concurrency: number;
+  onRowUpdate: (row: BulkSearchRow) => void;
+  onIdle?: () => void;
+  // Injectable for the mock provider / offline runs; defaults to the configured providers
+  search?: (row: BulkSearchRow, signal: AbortSignal) => Promise<SearchResponse>;
+}
+
+export interface BulkSearchQueue {
+  start: () => void;
+  pause: () => void;
+  resume: () => void;
+  cancel: () => void;
+  setConcurrency: (concurrency: number) => void;
+  isPaused: () => boolean;
+}
+
+const defaultSearch = (row: BulkSearchRow, signal: AbortSignal) =>
+  searchVideos(row.details, null, null, { signal });
+
+// Runs property searches with at most `concurrency` in flight. Pausing stops new rows
+// from starting while in-flight ones finish; cancelling aborts everything still open.
+export const createBulkSearchQueue = (rows: BulkSearchRow[], options: BulkSearchQueueOptions): BulkSearchQueue => {
+  const { onRowUpdate, onIdle, search = defaultSearch } = options;
+  let concurrency = Math.max(1, options.concurrency);
+  let paused = false;
+  let cancelled = false;
+  const pending = rows.filter(row => row.status === 'pending');
+  const running = new Map<string, AbortController>();
+  let idle = false;
+
+  // Cancelling and the last row's `finally` can both see an empty queue; report it once
+  const finish = () => {
+    if (idle) return;
+    idle = true;
+    onIdle?.();
+  };
+
+  const update = (row: BulkSearchRow, changes: Partial<BulkSearchRow>) => {
+    Object.assign(row, changes);
+    onRowUpdate({ ...row });
+  };
+
+  const runRow = async (row: BulkSearchRow) => {
+    const controller = new AbortController();
+    running.set(row.id, controller);
+    update(row, { status: 'running', error: undefined });
+
+    try {
+      const response = await search(row, controller.signal);
+      update(row, { status: 'done', response });
+    } catch (err) {
+      if (isAbortError(err) || controller.signal.aborted) {
+        update(row, { status: 'cancelled' });
+      } else {
+        update(row, { status: 'failed', error: describeError(err).message });
+      }
+    } finally {
+      running.delete(row.id);
+      pump();
+    }
+  };
+
+  const pump = () => {
+    while (!paused && !cancelled && running.size < concurrency && pending.length > 0) {
+      runRow(pending.shift()!);
+    }
+    if (running.size === 0 && (pending.length === 0 || cancelled)) finish();
+  };
+
+  return {
+    start: pump,
+    pause: () => { paused = true; },
+    resume: () => {
+      paused = false;
+      pump();
+    },
+    cancel: () => {
+      cancelled = true;
+      pending.splice(0).forEach(row => update(row, { status: 'cancelled' }));
+      running.forEach(controller => controller.abort());
+      if (running.size === 0) finish();
+    },
+    setConcurrency: (value: number) => {
+      concurrency = Math.max(1, value);
+      pump();
+    },
+    isPaused: () => paused
+  };
+};
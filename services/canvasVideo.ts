@@ -0,0 +1,113 @@
+import { createAbortError } from "./abort";
+
+// Canvas-to-video recording shared by the slideshow composer and social exports
+
+export const FPS = 30;
+
+// Prefer MP4 where the browser can record it (Safari, recent Chrome), otherwise WebM
+const RECORDING_TYPES = [
+  "video/mp4;codecs=avc1",
+  "video/mp4",
+  "video/webm;codecs=vp9,opus",
+  "video/webm;codecs=vp8,opus",
+  "video/webm"
+];
+
+export const isCanvasRecordingSupported = (): boolean =>
+  typeof MediaRecorder !== "undefined" &&
+  typeof HTMLCanvasElement !== "undefined" &&
+  "captureStream" in HTMLCanvasElement.prototype;
+
+export const pickRecordingType = (): string | undefined =>
+  RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+
+export const fileExtensionFor = (mimeType: string): string => mimeType.startsWith("video/mp4") ? "mp4" : "webm";
+
+export const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = "";
+  text.split(" ").forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  });
+  if (line) lines.push(line);
+  return lines;
+};
+
+export interface CanvasRecordingOptions {
+  durationSeconds: number;
+  drawFrame: (t: number) => void;
+  // Where playback is, in seconds. Defaults to wall-clock time since recording started.
+  clock?: () => number;
+  audioTrack?: MediaStreamTrack;
+  // Called once the recorder is running, to start audio or a source video
+  onStart?: () => void;
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+// Record whatever drawFrame paints until the clock reaches durationSeconds.
+// Recording happens in real time, so the tab should stay in the foreground while it runs.
+export const recordCanvas = async (
+  canvas: HTMLCanvasElement,
+  options: CanvasRecordingOptions
+): Promise<{ blob: Blob; mimeType: string }> => {
+  const { durationSeconds, drawFrame, audioTrack, onStart, signal, onProgress } = options;
+  const mimeType = pickRecordingType();
+  if (!mimeType) throw new Error("This browser doesn't support any video recording format.");
+
+  const stream = canvas.captureStream(FPS);
+  if (audioTrack) stream.addTrack(audioTrack);
+
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 5_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+
+  drawFrame(0);
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      let frameId = 0;
+      const onAbort = () => {
+        cancelAnimationFrame(frameId);
+        recorder.onstop = () => reject(createAbortError());
+        recorder.stop();
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      recorder.onstop = () => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve();
+      };
+      recorder.onerror = () => {
+        signal?.removeEventListener("abort", onAbort);
+        reject(new Error("Recording failed."));
+      };
+
+      recorder.start(250);
+      onStart?.();
+      const startedAt = performance.now();
+      const clock = options.clock || (() => (performance.now() - startedAt) / 1000);
+      const render = () => {
+        const t = clock();
+        drawFrame(Math.min(t, durationSeconds));
+        onProgress?.(Math.min(1, t / durationSeconds));
+        if (t >= durationSeconds) {
+          recorder.stop();
+          return;
+        }
+        frameId = requestAnimationFrame(render);
+      };
+      frameId = requestAnimationFrame(render);
+    });
+  } finally {
+    stream.getTracks().forEach(track => track.stop());
+  }
+
+  return { blob: new Blob(chunks, { type: mimeType.split(";")[0] }), mimeType };
+};
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { parseDelimited, parseListingsCsv } from "./csvImport";
+
+const HEADER = "street,city,state,zip,mls";
+
+describe("parseDelimited", () => {
+  it("handles quoted fields, escaped quotes and newlines inside quotes", () => {
+    const records = parseDelimited(`a,"b, c","say ""hi"""\r\n"multi\nline",x,y\n`);
+    expect(records.map(r => r.values)).toEqual([
+      ["a", "b, c", 'say "hi"'],
+      ["multi\nline", "x", "y"]
+    ]);
+  });
+
+  it("detects tab-separated input from the header", () => {
+    expect(parseDelimited("street\tcity\n1 Main St\tSpringfield").map(r => r.values)).toEqual([
+      ["street", "city"],
+      ["1 Main St", "Springfield"]
+    ]);
+  });
+});
+
+describe("parseListingsCsv", () => {
+  it("reports source line numbers after blank and multi-line rows", () => {
+    const text = [
+      HEADER,
+      "1 Main St,Springfield,IL,62701,MLS1",
+      "",
+      '"2 Oak Ave',
+      'Unit 4",Springfield,IL,62702,MLS2',
+      ",Springfield,IL,62703,MLS3",
+      "4 Elm St,Springfield,IL,62704,MLS4"
+    ].join("\n");
+
+    const { rows, errors } = parseListingsCsv(text);
+    expect(rows.map(r => [r.line, r.details.street])).toEqual([
+      [2, "1 Main St"],
+      [4, "2 Oak Ave\nUnit 4"],
+      [7, "4 Elm St"]
+    ]);
+    expect(errors).toEqual(["Line 6: missing street"]);
+  });
+
+  it("accepts header aliases and a byte-order mark", () => {
+    const { rows, errors } = parseListingsCsv("\uFEFFAddress,Town,ST,Postal Code,MLS #\n1 Main St,Springfield,IL,62701,MLS1");
+    expect(errors).toEqual([]);
+    expect(rows[0].details).toEqual({ street: "1 Main St", city: "Springfield", state: "IL", zip: "62701", mlsNumber: "MLS1" });
+  });
+
+  it("refuses files without the required columns", () => {
+    expect(parseListingsCsv("street,city\n1 Main St,Springfield").errors[0]).toMatch(/Missing column\(s\): state, zip, mlsNumber/);
+  });
+});
@@ -0,0 +1,107 @@
+import { PropertyDetails } from "../types";
+
+// Accepted header spellings for each property field (compared lower-cased, without spaces/punctuation)
+const HEADER_ALIASES: Record<keyof PropertyDetails, string[]> = {
+  street: ["street", "address", "streetaddress", "address1"],
+  city: ["city", "town"],
+  state: ["state", "st", "province"],
+  zip: ["zip", "zipcode", "postalcode", "postcode"],
+  mlsNumber: ["mls", "mlsnumber", "mlsno", "mlsid", "listingid"]
+};
+
+const FIELDS = Object.keys(HEADER_ALIASES) as (keyof PropertyDetails)[];
+
+export interface CsvImportResult {
+  rows: { line: number; details: PropertyDetails }[];
+  errors: string[];
+}
+
+export interface CsvRecord {
+  line: number; // 1-based source line the record starts on
+  values: string[];
+}
+
+// Minimal RFC 4180 parser: quoted fields, escaped quotes ("") and newlines inside quotes.
+// Tab-separated files (e.g. pasted from a spreadsheet) are detected from the header line.
+// Blank lines are dropped, so each record keeps the line it started on for error messages.
+export const parseDelimited = (text: string): CsvRecord[] => {
+  const firstLine = text.split(/\r?\n/, 1)[0] || "";
+  const delimiter = firstLine.includes("\t") && !firstLine.includes(",") ? "\t" : ",";
+
+  const records: CsvRecord[] = [];
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n" || (char === "\r" && text[i + 1] !== "\n")) line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push({ line: recordLine, values: record });
+      record = [];
+      field = "";
+      recordLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+  if (field || record.length) {
+    record.push(field);
+    records.push({ line: recordLine, values: record });
+  }
+
+  return records.filter(r => r.values.some(value => value.trim()));
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Turn an uploaded listings file into property rows. Rows with missing fields are
+// reported in `errors` rather than queued, since every search needs the full address and MLS.
+export const parseListingsCsv = (text: string): CsvImportResult => {
+  const [header, ...records] = parseDelimited(text.replace(/^\uFEFF/, ""));
+  if (!header) return { rows: [], errors: ["The file is empty."] };
+
+  const normalized = header.values.map(normalizeHeader);
+  const columns = {} as Record<keyof PropertyDetails, number>;
+  const missingColumns: string[] = [];
+  FIELDS.forEach(field => {
+    columns[field] = normalized.findIndex(h => HEADER_ALIASES[field].includes(h));
+    if (columns[field] === -1) missingColumns.push(field);
+  });
+  if (missingColumns.length > 0) {
+    return { rows: [], errors: [`Missing column(s): ${missingColumns.join(", ")}. Expected headers: street, city, state, zip, mls.`] };
+  }
+
+  const rows: CsvImportResult['rows'] = [];
+  const errors: string[] = [];
+  records.forEach(({ line, values }) => {
+    const details = {} as PropertyDetails;
+    FIELDS.forEach(field => { details[field] = (values[columns[field]] || "").trim(); });
+    const empty = FIELDS.filter(field => !details[field]);
+    if (empty.length > 0) {
+      errors.push(`Line ${line}: missing ${empty.join(", ")}`);
+      return;
+    }
+    rows.push({ line, details });
+  });
+
+  return { rows, errors };
+};
@@ -0,0 +1,14 @@
+// Helper to safely retrieve Env Vars
+export const getEnv = (key: string): string => {
+  // 1. Check import.meta.env (Vite standard)
+  if ((import.meta as any).env && (import.meta as any).env[key]) {
+    return (import.meta as any).env[key];
+  }
+  
+  // 2. Check process.env (Fallback / Render Node environment)
+  if (typeof process !== 'undefined' && process.env && process.env[key]) {
+    return process.env[key];
+  }
+
+  return "";
+};
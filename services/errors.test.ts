@@ -0,0 +1,40 @@
+import { describe, expect, it, vi } from "vitest";
+import { ApiError } from "@google/genai";
+import { failedBeforeAcceptance, GeminiServiceError, toGeminiServiceError, withRetry } from "./errors";
+
+const refused = () => new TypeError("fetch failed", { cause: Object.assign(new Error("connect ECONNREFUSED"), { code: 'ECONNREFUSED' }) });
+const reset = () => new TypeError("fetch failed", { cause: Object.assign(new Error("socket hang up"), { code: 'ECONNRESET' }) });
+
+describe("failedBeforeAcceptance", () => {
+  it("accepts rate limits and refused connections", () => {
+    expect(failedBeforeAcceptance(toGeminiServiceError(new ApiError({ message: "Too many requests", status: 429 })))).toBe(true);
+    expect(failedBeforeAcceptance(toGeminiServiceError(refused()))).toBe(true);
+  });
+
+  it("rejects failures the server may already have acted on", () => {
+    expect(failedBeforeAcceptance(toGeminiServiceError(new ApiError({ message: "Service unavailable", status: 503 })))).toBe(false);
+    expect(failedBeforeAcceptance(toGeminiServiceError(new ApiError({ message: "Deadline exceeded", status: 504 })))).toBe(false);
+    expect(failedBeforeAcceptance(toGeminiServiceError(reset()))).toBe(false);
+  });
+});
+
+describe("withRetry", () => {
+  it("retries transient failures", async () => {
+    const fn = vi.fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new ApiError({ message: "Service unavailable", status: 503 }))
+      .mockResolvedValue("ok");
+    await expect(withRetry(fn, { baseDelayMs: 0 })).resolves.toBe("ok");
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it("only retries what shouldRetry allows", async () => {
+    const fn = vi.fn<() => Promise<string>>()
+      .mockRejectedValueOnce(refused())
+      .mockRejectedValueOnce(new ApiError({ message: "Service unavailable", status: 503 }))
+      .mockResolvedValue("ok");
+    const error = await withRetry(fn, { baseDelayMs: 0, shouldRetry: failedBeforeAcceptance }).catch(e => e);
+    expect(error).toBeInstanceOf(GeminiServiceError);
+    expect(error.status).toBe(503);
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,180 @@
+import { ApiError } from "@google/genai";
+import { createAbortError, isAbortError } from "./abort";
+
+export type GeminiErrorKind =
+  | 'missing-key'
+  | 'auth-required'
+  | 'invalid-key'
+  | 'quota'
+  | 'safety'
+  | 'network'
+  | 'model-unavailable'
+  | 'unknown';
+
+// What the user sees for each kind of failure, and whether "Try Again" makes sense
+export const GEMINI_ERROR_GUIDANCE: Record<GeminiErrorKind, { title: string; action: string; retryable: boolean }> = {
+  'missing-key': {
+    title: "API key not configured",
+    action: "Set GEMINI_API_KEY for the API server (npm run api-server) and restart it.",
+    retryable: false
+  },
+  'auth-required': {
+    title: "Sign in required",
+    action: "Gemini search and video generation run on our server for signed-in users. Sign in with Google and try again.",
+    retryable: false
+  },
+  'invalid-key': {
+    title: "API key rejected",
+    action: "The Gemini API key is invalid or lacks permission for this model. Check the key in Google AI Studio.",
+    retryable: false
+  },
+  'quota': {
+    title: "Rate limit or quota reached",
+    action: "Too many requests were sent to Gemini. Wait a minute and try again, or check your plan's quota.",
+    retryable: true
+  },
+  'safety': {
+    title: "Request blocked by safety filters",
+    action: "Gemini declined this request. Try different photos or remove unusual text from the address fields.",
+    retryable: false
+  },
+  'network': {
+    title: "Network problem",
+    action: "Could not reach Gemini or the request timed out. Check your connection and try again.",
+    retryable: true
+  },
+  'model-unavailable': {
+    title: "Gemini is temporarily unavailable",
+    action: "The model is overloaded or down. Try again in a few minutes.",
+    retryable: true
+  },
+  'unknown': {
+    title: "Something went wrong",
+    action: "An unexpected error occurred while talking to Gemini. Please try again.",
+    retryable: true
+  }
+};
+
+export class GeminiServiceError extends Error {
+  kind: GeminiErrorKind;
+  status?: number;
+  cause?: unknown;
+
+  constructor(kind: GeminiErrorKind, message?: string, options: { status?: number; cause?: unknown } = {}) {
+    super(message || GEMINI_ERROR_GUIDANCE[kind].title);
+    this.name = "GeminiServiceError";
+    this.kind = kind;
+    this.status = options.status;
+    this.cause = options.cause;
+  }
+
+  get retryable(): boolean {
+    return GEMINI_ERROR_GUIDANCE[this.kind].retryable;
+  }
+}
+
+const kindFromStatus = (status: number, message: string): GeminiErrorKind | null => {
+  if (status === 429) return 'quota';
+  if (status === 400 && /api key not valid|api_key_invalid/i.test(message)) return 'invalid-key';
+  if (status === 401 || status === 403) return 'invalid-key';
+  if (status === 404) return 'model-unavailable';
+  if (status === 408 || status === 504) return 'network';
+  if (status >= 500) return 'model-unavailable';
+  return null;
+};
+
+// Map anything thrown by the SDK, fetch or our own code onto a GeminiServiceError
+export const toGeminiServiceError = (error: unknown): GeminiServiceError => {
+  if (error instanceof GeminiServiceError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = error instanceof ApiError ? error.status : (error as any)?.status;
+
+  if (typeof status === 'number') {
+    const kind = kindFromStatus(status, message);
+    if (kind) return new GeminiServiceError(kind, undefined, { status, cause: error });
+  }
+
+  if (/RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return new GeminiServiceError('quota', undefined, { cause: error });
+  if (/API key not valid|API_KEY_INVALID|PERMISSION_DENIED/i.test(message)) return new GeminiServiceError('invalid-key', undefined, { cause: error });
+  if (/SAFETY|blocked/i.test(message)) return new GeminiServiceError('safety', undefined, { cause: error });
+  if (/UNAVAILABLE|overloaded|INTERNAL/i.test(message)) return new GeminiServiceError('model-unavailable', undefined, { cause: error });
+  if (error instanceof TypeError || /failed to fetch|network|timed? ?out|ECONNRESET/i.test(message)) {
+    return new GeminiServiceError('network', undefined, { cause: error });
+  }
+
+  // Keep our own messages (e.g. "no URI was returned") rather than a generic title
+  return new GeminiServiceError('unknown', message || undefined, { cause: error });
+};
+
+// User-facing "what happened + what to do" text for any error; plain errors keep their message
+export const describeError = (error: unknown): { message: string; retryable: boolean } => {
+  if (error instanceof GeminiServiceError) {
+    const guidance = GEMINI_ERROR_GUIDANCE[error.kind];
+    const title = error.kind === 'unknown' ? error.message : guidance.title;
+    return { message: `${title}. ${guidance.action}`, retryable: guidance.retryable };
+  }
+  const message = error instanceof Error && error.message ? error.message : "An unexpected error occurred.";
+  return { message, retryable: false };
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(createAbortError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  signal?: AbortSignal;
+  // Narrows which retryable errors are retried, e.g. for calls that aren't safe to repeat
+  shouldRetry?: (error: GeminiServiceError) => boolean;
+  onRetry?: (error: GeminiServiceError, attempt: number, delayMs: number) => void;
+}
+
+const PRE_SEND_ERROR_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN']);
+
+// Node's fetch reports the socket error as the cause of a generic "fetch failed"
+const hasPreSendCause = (error: unknown): boolean => {
+  for (let current = error, depth = 0; current && depth < 5; current = (current as any).cause, depth++) {
+    if (PRE_SEND_ERROR_CODES.has((current as any).code)) return true;
+  }
+  return false;
+};
+
+// Failures where the request can't have started any work: a 429 rejection, or a connection
+// that was refused (or never resolved) before anything was sent. Paid, non-idempotent calls
+// such as starting a Veo generation only retry these, so a timeout can't bill twice.
+export const failedBeforeAcceptance = (error: GeminiServiceError): boolean =>
+  error.status === 429 || hasPreSendCause(error.cause);
+
+// Run a Gemini call, retrying transient failures (rate limits, 5xx, network) with
+// exponential backoff plus jitter. Non-retryable errors and cancellation surface at once.
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { retries = 3, baseDelayMs = 1000, signal, shouldRetry, onRetry } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (isAbortError(error) || signal?.aborted) throw error;
+
+      const serviceError = toGeminiServiceError(error);
+      if (!serviceError.retryable || serviceError.kind === 'unknown' || attempt >= retries) throw serviceError;
+      if (shouldRetry && !shouldRetry(serviceError)) throw serviceError;
+
+      const delayMs = baseDelayMs * 2 ** attempt + Math.floor(Math.random() * baseDelayMs);
+      console.warn(`Gemini call failed (${serviceError.kind}), retrying in ${delayMs}ms (attempt ${attempt + 1}/${retries})`);
+      onRetry?.(serviceError, attempt + 1, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+};
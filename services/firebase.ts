@@ -1,22 +1,9 @@
 
 import firebase from "firebase/compat/app";
 import "firebase/compat/auth";
-import { getFirestore } from "firebase/firestore";
-
-// Helper to safely retrieve Env Vars
-const getEnv = (key: string): string => {
-  // 1. Check import.meta.env (Vite standard)
-  if ((import.meta as any).env && (import.meta as any).env[key]) {
-    return (import.meta as any).env[key];
-  }
-  
-  // 2. Check process.env (Fallback / Render Node environment)
-  if (typeof process !== 'undefined' && process.env && process.env[key]) {
-    return process.env[key];
-  }
-
-  return "";
-};
+import { connectFirestoreEmulator, getFirestore } from "firebase/firestore";
+import { connectStorageEmulator, getStorage } from "firebase/storage";
+import { getEnv } from "./env";
 
 // Configuration object with VITE_ prefixes
 const firebaseConfig = {
@@ -28,10 +15,14 @@ const firebaseConfig = {
   appId: getEnv("VITE_FIREBASE_APP_ID")
 };
 
+// Host of a running `firebase emulators:start` (e.g. 127.0.0.1); ports match firebase.json
+const emulatorHost = getEnv("VITE_FIREBASE_EMULATOR_HOST");
+
 // Initialize Firebase
 let app;
 let auth: firebase.auth.Auth | undefined;
 let db;
+let storage;
 let googleProvider;
 
 try {
@@ -42,7 +33,15 @@ try {
         auth = firebase.auth();
         // Use modular firestore with compat app
         db = getFirestore(app);
+        // Without a bucket, saved search photos stay inside the Firestore documents
+        if (firebaseConfig.storageBucket) storage = getStorage(app);
         googleProvider = new firebase.auth.GoogleAuthProvider();
+
+        if (emulatorHost) {
+            auth.useEmulator(`http://${emulatorHost}:9099`);
+            connectFirestoreEmulator(db, emulatorHost, 8080);
+            if (storage) connectStorageEmulator(storage, emulatorHost, 9199);
+        }
     } else {
         console.warn("Firebase config missing. Auth and DB features will be disabled.");
     }
@@ -50,4 +49,4 @@ try {
     console.error("Firebase Initialization Error:", e);
 }
 
-export { auth, db, googleProvider };
+export { auth, db, storage, googleProvider };
@@ -0,0 +1,31 @@
+import { ListingVideoOptions, PropertyDetails } from "../types";
+
+// Gemini entry points for shared code. The browser always goes through the API server;
+// Node callers (the API server itself and the watch worker) hold the key and call directly.
+// Loaded lazily so neither side pulls in the other's dependencies (Firebase, the key).
+const isServer = typeof window === 'undefined';
+const load = () => isServer ? import("./geminiService") : import("./geminiProxy");
+
+type Direct = typeof import("./geminiService");
+
+export const searchPropertyVideos: Direct['searchPropertyVideos'] = async (...args) =>
+  (await load()).searchPropertyVideos(...args);
+
+export const verifyVideosVisually: Direct['verifyVideosVisually'] = async (...args) =>
+  (await load()).verifyVideosVisually(...args);
+
+export const startPromotionalVideo: Direct['startPromotionalVideo'] = async () =>
+  (await load()).startPromotionalVideo();
+
+export const startListingVideo: Direct['startListingVideo'] = async (...args) =>
+  (await load()).startListingVideo(...args);
+
+export const getVideoOperationState: Direct['getVideoOperationState'] = async (...args) =>
+  (await load()).getVideoOperationState(...args);
+
+// Without the key in hand, the browser learns about a missing key from the server's first answer
+export const hasGeminiApiKey = (): boolean =>
+  !isServer || !!(process.env.GEMINI_API_KEY || process.env.API_KEY);
+
+export const listingVideoTitle = (details: PropertyDetails, options: ListingVideoOptions): string =>
+  `AI Listing Teaser - ${details.street} (${options.aspectRatio}, ${options.resolution})`;
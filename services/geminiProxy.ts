@@ -0,0 +1,131 @@
+import {
+  ApiErrorBody,
+  ImagePayload,
+  ListingImages,
+  ListingVideoOptions,
+  PropertyDetails,
+  SearchOptions,
+  SearchResponse,
+  SearchStreamEvent,
+  VideoOperation,
+  VideoOperationState,
+  VideoSearchResult
+} from "../types";
+import { getEnv } from "./env";
+import { auth } from "./firebase";
+import { isAbortError } from "./abort";
+import { GEMINI_ERROR_GUIDANCE, GeminiErrorKind, GeminiServiceError, toGeminiServiceError } from "./errors";
+
+// Browser side of server/apiServer.ts. Same-origin "/api" by default (Vite proxies it
+// in development); VITE_API_BASE_URL points at a separately deployed server.
+export const apiUrl = (path: string): string => `${getEnv("VITE_API_BASE_URL").replace(/\/+$/, "")}${path}`;
+
+const authHeaders = async (): Promise<Record<string, string>> => {
+  const user = auth?.currentUser;
+  return user ? { Authorization: `Bearer ${await user.getIdToken()}` } : {};
+};
+
+const fromErrorBody = (body: ApiErrorBody | undefined, status?: number): GeminiServiceError => {
+  if (status === 401) return new GeminiServiceError('auth-required', body?.message, { status });
+  if (body && body.kind in GEMINI_ERROR_GUIDANCE) {
+    return new GeminiServiceError(body.kind as GeminiErrorKind, body.message, { status });
+  }
+  return toGeminiServiceError(Object.assign(new Error(body?.message || `API server error (${status})`), { status }));
+};
+
+const post = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+  let res: Response;
+  try {
+    res = await fetch(apiUrl(path), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...(await authHeaders()) },
+      body: JSON.stringify(body),
+      signal
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new GeminiServiceError('network', "Could not reach the API server.", { cause: error });
+  }
+  if (!res.ok) {
+    const errorBody = await res.json().catch(() => null);
+    throw fromErrorBody(errorBody?.error, res.status);
+  }
+  return res;
+};
+
+const postJson = async <T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> =>
+  (await post(path, body, signal)).json();
+
+// Only the bytes Gemini needs go over the wire, not the File or data-URL preview
+const toPayload = (image: ImagePayload | null): ImagePayload | null =>
+  image ? { base64: image.base64, mimeType: image.mimeType } : null;
+
+export const searchPropertyVideos = async (
+  details: PropertyDetails,
+  frontImage: ImagePayload | null,
+  backImage: ImagePayload | null,
+  options: SearchOptions = {}
+): Promise<SearchResponse> => {
+  const { signal, onProgress } = options;
+  const res = await post('/api/search', { details, frontImage: toPayload(frontImage), backImage: toPayload(backImage) }, signal);
+
+  // Progress arrives line by line ahead of the final result
+  const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    let newline: number;
+    while ((newline = buffer.indexOf("\n")) !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (!line) continue;
+      const event: SearchStreamEvent = JSON.parse(line);
+      if (event.type === 'progress') onProgress?.(event.progress);
+      else if (event.type === 'result') return event.response;
+      else throw fromErrorBody(event.error);
+    }
+  }
+  throw new GeminiServiceError('network', "The API server closed the connection before the search finished.");
+};
+
+export const verifyVideosVisually = async (
+  videos: VideoSearchResult[],
+  frontImage: ImagePayload | null,
+  backImage: ImagePayload | null,
+  signal?: AbortSignal
+): Promise<VideoSearchResult[]> => {
+  if ((!frontImage && !backImage) || videos.length === 0) return videos;
+  // Same contract as the direct version: only cancellation throws
+  try {
+    return await postJson('/api/verify-visual', { videos, frontImage: toPayload(frontImage), backImage: toPayload(backImage) }, signal);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.error("Visual verification failed:", error);
+    return videos.map(video => ({ ...video, visualMatch: 'unknown', visualMatchRationale: "Visual check failed." }));
+  }
+};
+
+// The YouTube key lives on the API server too
+export const searchYouTubeVideos = async (details: PropertyDetails, signal?: AbortSignal): Promise<VideoSearchResult[]> =>
+  (await postJson<{ videos: VideoSearchResult[] }>('/api/youtube/search', { details }, signal)).videos;
+
+export const startPromotionalVideo = async (): Promise<VideoOperation> =>
+  postJson<VideoOperation>('/api/videos/promo', {});
+
+export const startListingVideo = async (
+  details: PropertyDetails,
+  images: ListingImages,
+  options: ListingVideoOptions
+): Promise<VideoOperation> => {
+  const body = { details, images: { frontImage: toPayload(images.frontImage), backImage: toPayload(images.backImage) }, options };
+  return postJson<VideoOperation>('/api/videos/listing', body);
+};
+
+// The job token from the start call proves this account owns the operation. Finished
+// videos come back as a signed path on the API server, which streams the bytes.
+export const getVideoOperationState = async ({ operationName, jobToken }: VideoOperation): Promise<VideoOperationState> => {
+  const state = await postJson<VideoOperationState>('/api/videos/status', { operationName, jobToken });
+  return state.state === 'done' ? { ...state, uri: apiUrl(state.uri) } : state;
+};
@@ -1,34 +1,51 @@
 
-import { GoogleGenAI } from "@google/genai";
-import { PropertyDetails, SearchResponse, ImageFile } from "../types";
-
-// Helper to safely retrieve API Key from various environment configurations
+import { GoogleGenAI, GenerateVideosOperation, FinishReason } from "@google/genai";
+import {
+  PropertyDetails,
+  SearchResponse,
+  ImagePayload,
+  VideoSearchResult,
+  ListingImages,
+  ListingVideoOptions,
+  ListingVideoStyle,
+  VideoDiscoverySource,
+  SearchOptions,
+  VideoOperation,
+  VideoOperationState
+} from "../types";
+import {
+  VIDEO_SEARCH_RESPONSE_SCHEMA,
+  parseStructuredSearchResponse,
+  VISUAL_MATCH_RESPONSE_SCHEMA,
+  parseVisualMatchResponse
+} from "./searchSchema";
+import { classifyLink } from "./linkClassifier";
+import { canonicalVideoKey } from "./videoUrl";
+import { withThumbnails, fetchImageAsDataUrl } from "./thumbnails";
+import { checkVideoAvailability } from "./linkCheck";
+import { isAbortError, throwIfAborted } from "./abort";
+import { GeminiServiceError, failedBeforeAcceptance, toGeminiServiceError, withRetry } from "./errors";
+
+// Direct Gemini calls. These run in Node only (server/apiServer.ts and the watch worker)
+// so the API key never reaches the browser; the app goes through services/geminiProxy.ts.
 const getApiKey = (): string | undefined => {
-  // 1. Standard Node/Webpack/Process injection (Preferred)
-  if (typeof process !== 'undefined' && process.env?.API_KEY) {
-    return process.env.API_KEY;
-  }
-  // 2. Vite injection (import.meta.env) - Common on Render
-  // We check for VITE_API_KEY as Vite often requires the VITE_ prefix
-  if ((import.meta as any).env?.VITE_API_KEY) {
-    return (import.meta as any).env.VITE_API_KEY;
-  }
-  // 3. Check for standard API_KEY in import.meta.env just in case
-  if ((import.meta as any).env?.API_KEY) {
-    return (import.meta as any).env.API_KEY;
-  }
-  return undefined;
+  if (typeof process === 'undefined') return undefined;
+  return process.env.GEMINI_API_KEY || process.env.API_KEY || undefined;
 };
 
+export const hasGeminiApiKey = (): boolean => !!getApiKey();
+
 export const searchPropertyVideos = async (
   details: PropertyDetails,
-  frontImage: ImageFile | null,
-  backImage: ImageFile | null
+  frontImage: ImagePayload | null,
+  backImage: ImagePayload | null,
+  options: SearchOptions = {}
 ): Promise<SearchResponse> => {
+  const { signal, onProgress } = options;
   const apiKey = getApiKey();
   
   if (!apiKey) {
-    throw new Error("API Key not found. Please ensure API_KEY (or VITE_API_KEY) is set in your Render.com Environment Variables.");
+    throw new GeminiServiceError('missing-key', "API Key not found. Set GEMINI_API_KEY for the API server.");
   }
 
   const ai = new GoogleGenAI({ apiKey });
@@ -72,11 +89,14 @@ export const searchPropertyVideos = async (
        - "How To" videos or generic real estate advice.
     
     OUTPUT INSTRUCTIONS:
-    - Provide a concise summary of the video content found.
-    - LIST ALL DISCOVERED VIDEO LINKS. Do not filter them out if you are unsure.
+    - Respond ONLY with JSON matching the provided response schema.
+    - "summary": a concise summary of the video content found.
+    - "videos": LIST ALL DISCOVERED VIDEO LINKS. Do not filter them out if you are unsure.
+      For each video give its real title, the URL, the platform, the contentType
+      (walkthrough, drone, 3d-tour, listing or other) and a short reason it matches the property.
     - If you find a YouTube link, verify it is a /watch?v= link or a /shorts/ link, not a channel page.
     
-    If no specific video content is found, state "No video tours found" clearly.
+    If no specific video content is found, return an empty "videos" list and state "No video tours found" in the summary.
   `;
 
   // Build request parts dynamically
@@ -101,82 +121,73 @@ export const searchPropertyVideos = async (
   }
 
   try {
-    const response = await ai.models.generateContent({
+    throwIfAborted(signal);
+    onProgress?.({ stage: 'querying', message: "Asking Gemini to search the web..." });
+
+    const response = await withRetry(() => ai.models.generateContent({
       model: modelId,
       contents: {
         parts: requestParts
       },
       config: {
-        tools: [{ googleSearch: {} }]
+        tools: [{ googleSearch: {} }],
+        responseMimeType: "application/json",
+        responseSchema: VIDEO_SEARCH_RESPONSE_SCHEMA,
+        abortSignal: signal
       }
+    }), {
+      signal,
+      onRetry: (error, attempt, delayMs) => onProgress?.({
+        stage: 'querying',
+        message: `${error.message}. Retrying in ${Math.ceil(delayMs / 1000)}s (attempt ${attempt})...`
+      })
     });
 
-    const summary = response.text || "No summary provided.";
-    
-    // Deduplicate videos by URI
-    const uniqueVideos = new Map();
+    throwIfAborted(signal);
 
-    const addVideo = (uri: string, title: string = "Video Link") => {
+    // A blocked prompt or response comes back as a normal reply with no content
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason || response.candidates?.[0]?.finishReason === FinishReason.SAFETY) {
+      throw new GeminiServiceError('safety', `Request blocked by safety filters${blockReason ? ` (${blockReason})` : ""}`);
+    }
+
+    onProgress?.({ stage: 'extracting', message: "Extracting video links..." });
+
+    const structured = parseStructuredSearchResponse(response.text);
+    if (!structured) {
+        console.warn("Gemini response did not match the schema, falling back to link extraction.");
+    }
+
+    const summary = structured?.summary || response.text || "No summary provided.";
+    
+    // Deduplicate videos by canonical platform + video ID
+    const uniqueVideos = new Map<string, VideoSearchResult>();
+
+    const addVideo = (
+        uri: string,
+        title: string,
+        discoveredVia: VideoDiscoverySource,
+        details: Partial<VideoSearchResult> = {}
+    ) => {
         try {
             // Basic cleanup of the URI (remove trailing punctuation often captured by regex like . or ,)
             let cleanUri = uri.trim().replace(/[.,;:)]+$/, "");
             
-            // Validate URL structure and protocol
-            if (!cleanUri.startsWith("http")) return;
-            const urlObj = new URL(cleanUri); 
-            const hostname = urlObj.hostname.toLowerCase();
-            const lowerTitle = title.toLowerCase();
-
-            // --- ENHANCED FILTERING ---
-            
-            // 1. Filter out YouTube Channels/Users
-            if (hostname.includes("youtube.com") || hostname.includes("youtu.be")) {
-                if (cleanUri.includes("/channel/") || cleanUri.includes("/user/") || cleanUri.includes("/c/")) {
-                    return; // Skip channels
-                }
-            }
-
-            // 2. Filter out generic search pages or map pages if they sneak in
-            if (cleanUri.includes("google.com/maps") || cleanUri.includes("google.com/search")) {
-                return;
-            }
-
-            // 3. Filter out common non-video listing aggregators unless deep linked (heuristic)
-            // Many of these just list the MLS text without video.
-            // We rely on the model's grounding, but if we see a root domain or generic search, skip it.
-            if (urlObj.pathname === "/" || urlObj.pathname.length < 2) {
-                 // Likely a homepage, skip
-                 return;
-            }
-
-            // 3b. Filter out known "Search Result" pages which are rarely specific videos
-            // These often just show a map or a list of homes.
-            if (hostname.includes("zillow.com") && (cleanUri.includes("/homes/") || cleanUri.includes("_rb"))) {
-                 // zillow.com/homes/Address... is usually a map search
-                 // zillow.com/homedetails/ is the actual listing (which might have video)
-                 if (!cleanUri.includes("/homedetails/")) return;
-            }
-            if (hostname.includes("realtor.com") && cleanUri.includes("-search")) {
-                 return;
-            }
-            if (hostname.includes("redfin.com") && (cleanUri.includes("/city/") || cleanUri.includes("/zipcode/"))) {
-                 return;
-            }
-            if (hostname.includes("trulia.com") && (cleanUri.includes("/for_sale/") || cleanUri.includes("/sold/"))) {
-                 // Trulia for_sale pages are lists. Specific homes are usually /p/
-                 if (!cleanUri.includes("/p/")) return;
-            }
-
-            // 4. Filter out "How To" or "Verify" videos that are likely unrelated
-            if (lowerTitle.includes("how to verify") || lowerTitle.includes("verify youtube channel")) {
-                return;
-            }
-
-            if (!uniqueVideos.has(cleanUri)) {
-                uniqueVideos.set(cleanUri, {
+            // Declarative allow/reject rules per domain (see linkClassifier.ts)
+            const classification = classifyLink(cleanUri, title);
+            if (classification.verdict === 'reject') return;
+            const hostname = new URL(cleanUri).hostname.toLowerCase();
+
+            const key = canonicalVideoKey(cleanUri);
+            if (!uniqueVideos.has(key)) {
+                uniqueVideos.set(key, {
+                    ...details,
                     title: title,
                     uri: cleanUri,
                     source: hostname,
+                    discoveredVia,
+                    linkType: classification.linkType,
+                    linkReason: classification.reason,
                 });
             }
         } catch (e) {
@@ -184,73 +195,57 @@ export const searchPropertyVideos = async (
         }
     };
 
-    // 1. Extract from Grounding Metadata (High confidence sources)
+    // 1. Typed videos from the structured response (real titles, platform and content type)
+    structured?.videos.forEach(video => {
+        addVideo(video.url, video.title, 'structured', {
+            platform: video.platform || undefined,
+            contentType: video.contentType,
+            reason: video.reason || undefined
+        });
+    });
+
+    // 2. Extract from Grounding Metadata (High confidence sources)
     const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks || [];
     chunks.forEach(chunk => {
         if (chunk.web?.uri) {
-            addVideo(chunk.web.uri, chunk.web.title || "Source Link");
+            addVideo(chunk.web.uri, chunk.web.title || "Source Link", 'grounding');
         }
     });
 
-    // 2. Extract from Text Response (Fallback for when model mentions links but grounding misses them)
-    // Regex to find http/https URLs
-    const urlRegex = /(https?:\/\/[^\s<>"']+)/g;
-    const textMatches = summary.match(urlRegex) || [];
-    
-    textMatches.forEach(match => {
-        // We give these a generic title since we don't have the anchor text easily
-        // unless we parse the markdown more deeply.
-        addVideo(match, "Mentioned Video Link");
-    });
+    // 3. Extract from Text Response (Fallback for when the output was not valid JSON)
+    if (!structured) {
+        // Regex to find http/https URLs
+        const urlRegex = /(https?:\/\/[^\s<>"']+)/g;
+        const textMatches = summary.match(urlRegex) || [];
+        
+        textMatches.forEach(match => {
+            // We give these a generic title since we don't have the anchor text easily
+            // unless we parse the markdown more deeply.
+            addVideo(match, "Mentioned Video Link", 'text');
+        });
+    }
 
     let videos = Array.from(uniqueVideos.values());
 
-    // --- AVAILABILITY CHECK (YouTube Only) ---
-    const checkAvailability = async (video: any) => {
-        const isYouTube = video.source.includes("youtube.com") || video.source.includes("youtu.be");
-        if (!isYouTube) return true; 
-
-        try {
-            const oembedUrl = `https://www.youtube.com/oembed?url=${encodeURIComponent(video.uri)}&format=json`;
-            const controller = new AbortController();
-            const timeoutId = setTimeout(() => controller.abort(), 5000); // Increased to 5 seconds
-
-            const res = await fetch(oembedUrl, { 
-                method: 'GET',
-                signal: controller.signal
-            });
-            
-            clearTimeout(timeoutId);
-            
-            if (res.status === 404) {
-                console.warn(`Filtering unavailable YouTube video (Status ${res.status}): ${video.uri}`);
-                return false;
-            }
+    onProgress?.({
+        stage: 'verifying',
+        message: `Checking availability of ${videos.length} video(s)...`,
+        partial: { summary, videos: withThumbnails(videos), found: videos.length > 0 }
+    });
 
-            if (!res.ok) {
-                 // Other errors (401, 403, 500) might be API restrictions or temporary. Let's keep it to be safe.
-                 console.warn(`YouTube verification returned status ${res.status}, but keeping video: ${video.uri}`);
-                 return true;
-            }
+    // --- AVAILABILITY CHECK + THUMBNAILS (oEmbed platforms) ---
+    // Record the check result (used for confidence scoring) and drop confirmed dead links
+    const availabilityResults = await Promise.all(videos.map(v => checkVideoAvailability(v.uri, signal)));
+    videos = withThumbnails(videos
+        .map((video, index) => ({
+            ...video,
+            availability: availabilityResults[index].availability,
+            lastCheckedAt: Date.now(),
+            thumbnailUrl: video.thumbnailUrl || availabilityResults[index].thumbnailUrl
+        }))
+        .filter(video => video.availability !== 'unavailable'));
 
-            try {
-                const data = await res.json();
-                if (data.title === "video unavailable") return false;
-            } catch (jsonError) {}
-
-            return true;
-        } catch (e) {
-            // Network error, timeout, or CORS block.
-            // If we can't verify, we should DEFAULT TO SHOWING IT to avoid false negatives.
-            // The user prefers seeing videos over seeing nothing.
-            console.warn(`Verification failed (network/CORS), keeping video: ${video.uri}`, e);
-            return true;
-        }
-    };
-
-    // Filter videos
-    const availabilityResults = await Promise.all(videos.map(v => checkAvailability(v)));
-    videos = videos.filter((_, index) => availabilityResults[index]);
+    throwIfAborted(signal);
 
     return {
       summary,
@@ -259,35 +254,177 @@ export const searchPropertyVideos = async (
     };
 
   } catch (error) {
+    // Cancellation is not a failure; let the caller see it as-is
+    if (isAbortError(error) || signal?.aborted) throw error;
     console.error("Gemini API Error:", error);
-    throw new Error("Failed to search for videos. Please check your API Key and try again.");
+    throw toGeminiServiceError(error);
   }
 };
 
-export const generatePromotionalVideo = async (): Promise<string> => {
-  // Ensure the user has selected a paid API key for Veo
-  // Cast window to any to access aistudio which might be defined globally with a conflicting type
-  const aistudio = (window as any).aistudio;
-  
-  if (aistudio) {
-    const hasKey = await aistudio.hasSelectedApiKey();
-    if (!hasKey) {
-      await aistudio.openSelectKey();
+// Thumbnails compared per request; keeps the verification call small and fast
+const MAX_VISUAL_CHECKS = 12;
+
+// Compare each video's thumbnail with the uploaded photos and record a match verdict.
+// Videos without a usable thumbnail get 'unknown'. Only throws when cancelled: on
+// failure the videos are returned with 'unknown' so the search result is still shown.
+export const verifyVideosVisually = async (
+  videos: VideoSearchResult[],
+  frontImage: ImagePayload | null,
+  backImage: ImagePayload | null,
+  signal?: AbortSignal
+): Promise<VideoSearchResult[]> => {
+  const photos = [frontImage, backImage].filter((img): img is ImagePayload => !!img);
+  const apiKey = getApiKey();
+  if (photos.length === 0 || videos.length === 0) return videos;
+
+  const markUnknown = (video: VideoSearchResult, rationale: string): VideoSearchResult =>
+    ({ ...video, visualMatch: 'unknown', visualMatchRationale: rationale });
+
+  if (!apiKey) {
+    return videos.map(v => markUnknown(v, "Visual check skipped: no API key configured."));
+  }
+
+  // Load thumbnails (oEmbed/static previews) as inline image data
+  const candidates = videos.slice(0, MAX_VISUAL_CHECKS);
+  const thumbnails = await Promise.all(
+    candidates.map(v => v.thumbnailUrl ? fetchImageAsDataUrl(v.thumbnailUrl) : Promise.resolve(null))
+  );
+  throwIfAborted(signal);
+
+  const checkable = candidates
+    .map((video, index) => ({ index, dataUrl: thumbnails[index] }))
+    .filter((c): c is { index: number; dataUrl: string } => !!c.dataUrl);
+
+  if (checkable.length === 0) {
+    return videos.map(v => markUnknown(v, "No preview image available to compare."));
+  }
+
+  const ai = new GoogleGenAI({ apiKey });
+
+  const requestParts: any[] = [{
+    text: `
+      You are verifying real estate videos. The first ${photos.length} image(s) are photos of the TARGET property
+      (${photos.length === 2 ? "front and back" : "one exterior view"}).
+      The following images are numbered video thumbnails.
+      For each thumbnail decide whether it shows the SAME property as the target photos.
+      - "match": clearly the same house (same facade, roofline, windows, colors, landscaping).
+      - "mismatch": clearly a different house, or unrelated content.
+      - "unknown": interior shot, logo, text card or too little detail to tell.
+      Judge neighbouring houses as "mismatch". Give a one-sentence rationale naming the deciding features.
+    `
+  }];
+
+  photos.forEach(photo => {
+    requestParts.push({ inlineData: { mimeType: photo.mimeType, data: photo.base64 } });
+  });
+
+  checkable.forEach(({ index, dataUrl }) => {
+    const [header, data] = dataUrl.split(",");
+    const mimeType = header.match(/data:([^;]+)/)?.[1] || "image/jpeg";
+    requestParts.push({ text: `Thumbnail ${index}:` });
+    requestParts.push({ inlineData: { mimeType, data } });
+  });
+
+  try {
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash',
+      contents: { parts: requestParts },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: VISUAL_MATCH_RESPONSE_SCHEMA,
+        abortSignal: signal
+      }
+    });
+
+    const entries = parseVisualMatchResponse(response.text);
+    if (!entries) {
+      return videos.map(v => markUnknown(v, "Visual check returned an unreadable answer."));
     }
+    const byIndex = new Map(entries.map(e => [e.index, e]));
+    const checkedIndexes = new Set(checkable.map(c => c.index));
+
+    return videos.map((video, index) => {
+      const entry = byIndex.get(index);
+      if (entry && checkedIndexes.has(index)) {
+        return { ...video, visualMatch: entry.verdict, visualMatchRationale: entry.rationale || undefined };
+      }
+      return markUnknown(video, index >= MAX_VISUAL_CHECKS
+        ? "Not checked: too many results."
+        : "No preview image available to compare.");
+    });
+
+  } catch (error) {
+    if (isAbortError(error) || signal?.aborted) throw error;
+    console.error("Visual verification failed:", error);
+    return videos.map(v => markUnknown(v, "Visual check failed."));
   }
+};
 
-  // Create a new instance with the potentially newly selected key
-  // We re-fetch the key here, prioritizing process.env (which aistudio might inject)
+// Gemini file downloads need the key as a query parameter. Range headers pass through
+// so the browser can seek in the streamed video.
+export const fetchGeneratedVideo = async (
+  fileUri: string,
+  headers: Record<string, string> = {},
+  signal?: AbortSignal
+): Promise<Response> => {
   const apiKey = getApiKey();
-  
-  if (!apiKey) throw new Error("API Key not found");
-  
-  const ai = new GoogleGenAI({ apiKey });
+  if (!apiKey) throw new GeminiServiceError('missing-key', "API Key not found");
+  const url = new URL(fileUri);
+  if (url.hostname !== 'generativelanguage.googleapis.com') {
+    throw new Error("Not a Gemini file URL.");
+  }
+  url.searchParams.set('key', apiKey);
+  return fetch(url, { headers, signal });
+};
+
+// Veo needs a key on a paid plan; the key itself is checked the same way as for search
+const getVeoClient = (): GoogleGenAI => {
+  const apiKey = getApiKey();
+  if (!apiKey) throw new GeminiServiceError('missing-key', "API Key not found");
+  return new GoogleGenAI({ apiKey });
+};
+
+// A finished operation's `uri` is the Gemini file URL, which only downloads with the API key.
+// The API server hands the browser a signed link to its own stream endpoint instead.
+export const getVideoOperationState = async ({ operationName }: VideoOperation): Promise<VideoOperationState> => {
+  const ai = getVeoClient();
+
+  const pending = new GenerateVideosOperation();
+  pending.name = operationName;
+  let operation: GenerateVideosOperation;
+  try {
+    // A single failed poll (network blip, 503) should not lose a paid generation
+    operation = await withRetry(() => ai.operations.getVideosOperation({ operation: pending }));
+  } catch (error) {
+    throw toGeminiServiceError(error);
+  }
+
+  if (!operation.done) return { state: 'running' };
+  if (operation.error) {
+    return { state: 'failed', error: String(operation.error.message || "Video generation failed.") };
+  }
+  const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
+  if (!videoUri) {
+    const filtered = operation.response?.raiMediaFilteredReasons?.[0];
+    return { state: 'failed', error: filtered || "Video generation completed but no URI was returned." };
+  }
+  return { state: 'done', uri: videoUri };
+};
+
+const toVideoOperation = (operation: GenerateVideosOperation): VideoOperation => {
+  if (!operation.name) throw new Error("Veo did not return an operation to track.");
+  return { operationName: operation.name };
+};
+
+// Starts the tutorial video and returns the operation to poll
+export const startPromotionalVideo = async (): Promise<VideoOperation> => {
+  const ai = getVeoClient();
 
   const prompt = "An animated tutorial video showing a clean web application interface for Real Estate. Screen shows a form with fields: Street, City, State, Zip, MLS#. A cursor fills in '123 Maple Dr', 'Beverly Hills', 'CA', '90210'. A user uploads a property photo. The cursor clicks a blue 'Search' button. The screen transitions to show a list of video results found. The animation is sleek, professional, with a blue and white color scheme, demonstrating how to use the R.E.-Image2Vidz app.";
 
   try {
-    let operation = await ai.models.generateVideos({
+    // Each accepted start is a paid generation, so only retry when the request was never taken
+    const operation = await withRetry(() => ai.models.generateVideos({
       model: 'veo-3.1-fast-generate-preview',
       prompt: prompt,
       config: {
@@ -295,24 +432,74 @@ export const generatePromotionalVideo = async (): Promise<string> => {
         resolution: '720p',
         aspectRatio: '16:9'
       }
-    });
+    }), { shouldRetry: failedBeforeAcceptance });
 
-    // Poll for completion
-    while (!operation.done) {
-      await new Promise(resolve => setTimeout(resolve, 5000)); // Poll every 5 seconds
-      operation = await ai.operations.getVideosOperation({operation: operation});
-    }
+    return toVideoOperation(operation);
 
-    const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
-    if (!videoUri) {
-      throw new Error("Video generation completed but no URI was returned.");
-    }
+  } catch (error) {
+    console.error("Veo API Error:", error);
+    throw toGeminiServiceError(error);
+  }
+};
+
+const LISTING_STYLE_PROMPTS: Record<ListingVideoStyle, string> = {
+  cinematic: "Slow, smooth cinematic dolly movement with shallow depth of field and warm, natural color grading.",
+  bright: "Bright, airy daytime look with clear blue sky, crisp colors and a gentle forward glide.",
+  twilight: "Golden-hour to twilight look with warm interior lights glowing through the windows and a slow push-in.",
+  aerial: "Smooth drone-style aerial reveal that rises and orbits around the home to show the lot and surroundings."
+};
+
+// Starts a listing teaser and returns the operation to poll
+export const startListingVideo = async (
+  details: PropertyDetails,
+  images: ListingImages,
+  options: ListingVideoOptions
+): Promise<VideoOperation> => {
+  // Veo animates from a real photo of the house; without one it would invent a property
+  const startImage = images.frontImage || images.backImage;
+  if (!startImage) {
+    throw new Error("Please upload at least one property photo to generate a listing video.");
+  }
+  // When both photos exist, end the clip on the back of the house
+  const endImage = images.frontImage && images.backImage ? images.backImage : null;
+
+  const ai = getVeoClient();
+
+  const prompt = `
+    A short, professional real estate listing teaser video for the home at
+    ${details.street}, ${details.city}, ${details.state} ${details.zip}.
+    Animate the provided photo of the actual property with realistic camera motion.
+    Keep the architecture, colors, landscaping and surroundings faithful to the photo${endImage ? "s" : ""}. Do not add or remove structures.
+    ${endImage ? "Move around the house so the clip ends on the view shown in the final frame." : ""}
+    Style: ${LISTING_STYLE_PROMPTS[options.style]}
+    No text overlays, no people, no logos.
+  `;
+
+  try {
+    const operation = await withRetry(() => ai.models.generateVideos({
+      model: 'veo-3.1-fast-generate-preview',
+      prompt: prompt,
+      image: {
+        imageBytes: startImage.base64,
+        mimeType: startImage.mimeType
+      },
+      config: {
+        numberOfVideos: 1,
+        resolution: options.resolution,
+        aspectRatio: options.aspectRatio,
+        ...(endImage ? {
+          lastFrame: {
+            imageBytes: endImage.base64,
+            mimeType: endImage.mimeType
+          }
+        } : {})
+      }
+    }), { shouldRetry: failedBeforeAcceptance });
 
-    // Append API key to fetch the video content
-    return `${videoUri}&key=${apiKey}`;
+    return toVideoOperation(operation);
 
   } catch (error) {
     console.error("Veo API Error:", error);
-    throw new Error("Failed to generate promotional video.");
+    throw toGeminiServiceError(error);
   }
 };
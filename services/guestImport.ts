@@ -0,0 +1,89 @@
+import { SavedSearch } from "../types";
+import { SearchRepository } from "./searchRepository";
+import { dedupeVideos } from "./videoUrl";
+
+// What to do with a guest search whose title is already used in the account
+export type DuplicateTitlePolicy = 'merge' | 'rename';
+
+export interface GuestImportResult {
+  imported: number; // Saved as new searches
+  merged: number;   // Folded into a same-titled search already in the account
+  failed: number;
+}
+
+export interface GuestImportOptions {
+  userId: string;
+  ownerEmail?: string | null;
+  // Asked once, with the clashing titles, and only if there are any
+  resolveDuplicates: (titles: string[]) => DuplicateTitlePolicy | Promise<DuplicateTitlePolicy>;
+  // Runs after each search has landed, e.g. to remove it from where it came from
+  onImported?: (search: SavedSearch) => Promise<void>;
+}
+
+const titleOf = (search: SavedSearch) => search.title || search.propertyDetails.street;
+
+// "12 Oak St (Guest)", then "(Guest 2)" and so on until the title is free
+const uniqueTitle = (title: string, taken: Set<string>): string => {
+  let candidate = `${title} (Guest)`;
+  for (let n = 2; taken.has(candidate); n++) candidate = `${title} (Guest ${n})`;
+  return candidate;
+};
+
+// Moves searches made as a guest into an account. `searches` must carry their full photos
+// (see SearchRepository.loadImages). A search is only handed to onImported once it has
+// landed, so an interrupted import can run again without duplicating what made it across.
+export const importGuestSearches = async (
+  searches: SavedSearch[],
+  target: SearchRepository,
+  options: GuestImportOptions
+): Promise<GuestImportResult> => {
+  const result: GuestImportResult = { imported: 0, merged: 0, failed: 0 };
+  if (searches.length === 0) return result;
+
+  // Newest first, so a title used twice in the account matches its latest search
+  const existing = new Map<string, SavedSearch>();
+  (await target.listOwned(options.userId)).forEach(search => {
+    if (!existing.has(titleOf(search))) existing.set(titleOf(search), search);
+  });
+  const clashing = Array.from(new Set(searches.map(titleOf).filter(title => existing.has(title))));
+  const policy = clashing.length > 0 ? await options.resolveDuplicates(clashing) : 'rename';
+  const taken = new Set(existing.keys());
+
+  for (const search of searches) {
+    const title = titleOf(search);
+    const match = existing.get(title);
+    try {
+      if (match && policy === 'merge') {
+        // The account's entries win over guest duplicates, as in a manual merge
+        await target.merge(match.id!, [], current => {
+          const videos = dedupeVideos(current.results.videos || [], search.results.videos || []);
+          return { ...current.results, videos, found: videos.length > 0 };
+        });
+        result.merged++;
+      } else {
+        // Photo references point into the guest's storage, so the photos are saved afresh
+        const { id, frontImageRef, backImageRef, ...data } = search;
+        const importedTitle = match ? uniqueTitle(title, taken) : title;
+        await target.create({
+          ...data,
+          userId: options.userId,
+          ownerEmail: options.ownerEmail || undefined,
+          title: importedTitle
+        });
+        taken.add(importedTitle);
+        result.imported++;
+      }
+    } catch (e) {
+      console.error(`Failed to import guest search "${title}":`, e);
+      result.failed++;
+      continue;
+    }
+
+    try {
+      await options.onImported?.(search);
+    } catch (e) {
+      console.warn(`Imported guest search "${title}" but could not remove the original:`, e);
+    }
+  }
+  return result;
+};
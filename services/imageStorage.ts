@@ -0,0 +1,38 @@
+import { FirebaseStorage, ref, uploadBytes, getBlob, deleteObject } from "firebase/storage";
+import { SerializableImage, StoredImageRef } from "../types";
+import { createImageThumbnail, fromImageBlob, toImageBlob } from "./savedImages";
+
+export type ImageSlot = 'front' | 'back';
+
+// Saved search photos in Cloud Storage. Paths start with the owner's uid so storage.rules
+// can check ownership without a Firestore lookup.
+export interface SearchImageStore {
+  upload: (userId: string, searchId: string, slot: ImageSlot, image: SerializableImage) => Promise<StoredImageRef>;
+  download: (imageRef: StoredImageRef) => Promise<SerializableImage>;
+  // Already-missing files count as removed
+  remove: (imageRef: StoredImageRef) => Promise<void>;
+}
+
+export const searchImagePath = (userId: string, searchId: string, slot: ImageSlot) =>
+  `users/${userId}/searches/${searchId}/${slot}`;
+
+export const createSearchImageStore = (storage: FirebaseStorage): SearchImageStore => ({
+  upload: async (userId, searchId, slot, image) => {
+    const path = searchImagePath(userId, searchId, slot);
+    const [, thumbnail] = await Promise.all([
+      uploadBytes(ref(storage, path), toImageBlob(image), { contentType: image.mimeType }),
+      createImageThumbnail(image)
+    ]);
+    return { path, mimeType: image.mimeType, name: image.name, thumbnail: thumbnail || undefined };
+  },
+
+  download: async (imageRef) => fromImageBlob(await getBlob(ref(storage, imageRef.path)), imageRef.name),
+
+  remove: async (imageRef) => {
+    try {
+      await deleteObject(ref(storage, imageRef.path));
+    } catch (e: any) {
+      if (e?.code !== 'storage/object-not-found') throw e;
+    }
+  }
+});
@@ -0,0 +1,95 @@
+// Minimal promise wrapper around the browser's IndexedDB for app-local storage
+
+const DB_NAME = 're_app';
+const DB_VERSION = 2;
+
+export const STORES = {
+  searchCache: 'searchCache',
+  // Guest saved searches, without their photos
+  searches: 'searches',
+  // Saved search photos as Blobs, keyed "<searchId>/<slot>"
+  searchImages: 'searchImages'
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const isIndexedDbAvailable = (): boolean =>
+  typeof indexedDB !== 'undefined';
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!isIndexedDbAvailable()) {
+    return Promise.reject(new Error("IndexedDB is not available in this browser."));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.searchCache)) {
+          db.createObjectStore(STORES.searchCache, { keyPath: 'key' });
+        }
+        // Version 2
+        if (!db.objectStoreNames.contains(STORES.searches)) {
+          db.createObjectStore(STORES.searches, { keyPath: 'id' }).createIndex('userId', 'userId');
+        }
+        if (!db.objectStoreNames.contains(STORES.searchImages)) {
+          db.createObjectStore(STORES.searchImages, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const idbGet = async <T>(storeName: string, key: IDBValidKey): Promise<T | undefined> => {
+  const db = await openDatabase();
+  return requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).get(key));
+};
+
+export const idbPut = async <T>(storeName: string, value: T): Promise<void> => {
+  const db = await openDatabase();
+  await requestToPromise(db.transaction(storeName, 'readwrite').objectStore(storeName).put(value));
+};
+
+export const idbDelete = async (storeName: string, key: IDBValidKey): Promise<void> => {
+  const db = await openDatabase();
+  await requestToPromise(db.transaction(storeName, 'readwrite').objectStore(storeName).delete(key));
+};
+
+export const idbGetAll = async <T>(storeName: string, indexName?: string, key?: IDBValidKey): Promise<T[]> => {
+  const db = await openDatabase();
+  const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+  return requestToPromise(indexName ? store.index(indexName).getAll(key) : store.getAll(key));
+};
+
+// Several reads and writes that land together or not at all. `run` must queue its requests
+// synchronously (or from their callbacks): awaiting anything else lets the transaction commit.
+export const idbTransaction = async (
+  storeNames: string[],
+  run: (transaction: IDBTransaction) => void
+): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeNames, 'readwrite');
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error("IndexedDB transaction was aborted."));
+    try {
+      run(transaction);
+    } catch (e) {
+      transaction.abort();
+      reject(e);
+    }
+  });
+};
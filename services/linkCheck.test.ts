@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { VideoSearchResult } from "../types";
+import { createLinkChecker, LinkChecker, LinkFetcher, verifyVideoLinks } from "./linkCheck";
+
+const YOUTUBE = "https://www.youtube.com/watch?v=abcdefghijk";
+const PAGE = "https://tours.example.com/123-main-st";
+
+// Answers every request with the next status in `statuses` (the last one repeats)
+const stubFetcher = (...statuses: number[]) => vi.fn<LinkFetcher>(async () => {
+  const status = statuses.length > 1 ? statuses.shift()! : statuses[0];
+  return new Response(status === 200 ? JSON.stringify({ title: "Tour", thumbnail_url: "https://i.ytimg.com/t.jpg" }) : null, { status });
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("createLinkChecker", () => {
+  it("asks oEmbed for known platforms and keeps the thumbnail", async () => {
+    const fetcher = stubFetcher(200);
+    expect(await createLinkChecker(fetcher)(YOUTUBE)).toEqual({ availability: 'available', thumbnailUrl: "https://i.ytimg.com/t.jpg" });
+    expect(fetcher.mock.calls[0][0]).toBe(`https://www.youtube.com/oembed?url=${encodeURIComponent(YOUTUBE)}&format=json`);
+  });
+
+  it.each([404, 410])("treats oEmbed %i as unavailable", async status => {
+    expect(await createLinkChecker(stubFetcher(status))(YOUTUBE)).toEqual({ availability: 'unavailable' });
+  });
+
+  it.each([401, 403, 500, 503])("treats oEmbed %i as unknown", async status => {
+    expect(await createLinkChecker(stubFetcher(status))(YOUTUBE)).toEqual({ availability: 'unknown' });
+  });
+
+  it("falls back from HEAD to GET when the server refuses HEAD", async () => {
+    const fetcher = stubFetcher(405, 200);
+    expect(await createLinkChecker(fetcher)(PAGE)).toEqual({ availability: 'available' });
+    expect(fetcher.mock.calls.map(([url, init]) => [url, init.method])).toEqual([[PAGE, 'HEAD'], [PAGE, 'GET']]);
+  });
+
+  it("reports a GET 404 after the fallback as unavailable", async () => {
+    expect(await createLinkChecker(stubFetcher(405, 404))(PAGE)).toEqual({ availability: 'unavailable' });
+  });
+
+  it("treats network and CORS failures as unknown", async () => {
+    const fetcher = vi.fn<LinkFetcher>().mockRejectedValue(new TypeError("Failed to fetch"));
+    expect(await createLinkChecker(fetcher)(PAGE)).toEqual({ availability: 'unknown' });
+  });
+});
+
+describe("verifyVideoLinks", () => {
+  const video = (uri: string, extra: Partial<VideoSearchResult> = {}): VideoSearchResult => ({ title: "Tour", uri, source: "example.com", ...extra });
+
+  it("keeps the previous status when a re-check is inconclusive", async () => {
+    const checker = vi.fn<LinkChecker>(async () => ({ availability: 'unknown' }));
+    const [known, unchecked] = await verifyVideoLinks([video(YOUTUBE, { availability: 'unavailable' }), video(PAGE)], { checker });
+    expect(known.availability).toBe('unavailable');
+    expect(known.lastCheckedAt).toEqual(expect.any(Number));
+    expect(unchecked.availability).toBe('unknown');
+  });
+
+  it("replaces the previous status with a conclusive answer and skips generated clips", async () => {
+    const checker = vi.fn<LinkChecker>(async () => ({ availability: 'available', thumbnailUrl: "https://i.ytimg.com/t.jpg" }));
+    const generated = video("https://api.example.com/veo.mp4", { isGenerated: true });
+    const [checked, skipped] = await verifyVideoLinks([video(YOUTUBE, { availability: 'unavailable' }), generated], { checker });
+    expect(checked).toMatchObject({ availability: 'available', thumbnailUrl: "https://i.ytimg.com/t.jpg" });
+    expect(skipped).toBe(generated);
+    expect(checker).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,111 @@
+import { AvailabilityStatus, VideoSearchResult } from "../types";
+import { parseVideoUrl, VideoPlatform } from "./videoUrl";
+import { fetchWithTimeout, throwIfAborted } from "./abort";
+
+export interface AvailabilityCheck {
+  availability: AvailabilityStatus;
+  thumbnailUrl?: string;
+}
+
+// The network call behind every check. Swappable so tests and offline runs can use a stub.
+export type LinkFetcher = (url: string, init: RequestInit, signal?: AbortSignal) => Promise<Response>;
+
+export type LinkChecker = (uri: string, signal?: AbortSignal) => Promise<AvailabilityCheck>;
+
+const CHECK_TIMEOUT_MS = 5000;
+
+const defaultFetcher: LinkFetcher = (url, init, signal) => fetchWithTimeout(url, init, CHECK_TIMEOUT_MS, signal);
+
+// Public oEmbed endpoints; the response confirms the video exists and carries its thumbnail
+const OEMBED_ENDPOINTS: Partial<Record<VideoPlatform, string>> = {
+  youtube: "https://www.youtube.com/oembed",
+  vimeo: "https://vimeo.com/api/oembed.json",
+  tiktok: "https://www.tiktok.com/oembed"
+};
+
+// Status codes that mean the content is gone rather than temporarily unreachable
+const GONE_STATUSES = [404, 410];
+
+const checkViaOEmbed = async (
+  fetcher: LinkFetcher,
+  endpoint: string,
+  uri: string,
+  signal?: AbortSignal
+): Promise<AvailabilityCheck> => {
+  const res = await fetcher(`${endpoint}?url=${encodeURIComponent(uri)}&format=json`, { method: 'GET' }, signal);
+
+  if (GONE_STATUSES.includes(res.status)) return { availability: 'unavailable' };
+  // Other errors (401, 403, 500) might be embedding restrictions or temporary
+  if (!res.ok) return { availability: 'unknown' };
+
+  try {
+    const data = await res.json();
+    if (data.title === "video unavailable") return { availability: 'unavailable' };
+    return { availability: 'available', thumbnailUrl: data.thumbnail_url || undefined };
+  } catch (jsonError) {
+    return { availability: 'available' };
+  }
+};
+
+// Any other page: HEAD first, falling back to GET for servers that reject HEAD.
+// Most sites block cross-origin reads from the browser; that lands in 'unknown'.
+const checkViaProbe = async (fetcher: LinkFetcher, uri: string, signal?: AbortSignal): Promise<AvailabilityCheck> => {
+  let res = await fetcher(uri, { method: 'HEAD', redirect: 'follow' }, signal);
+  if (res.status === 405 || res.status === 501) {
+    res = await fetcher(uri, { method: 'GET', redirect: 'follow' }, signal);
+  }
+  if (GONE_STATUSES.includes(res.status)) return { availability: 'unavailable' };
+  return { availability: res.ok ? 'available' : 'unknown' };
+};
+
+// Ask whether a link still works. Anything short of a clear "gone" answer is
+// 'unknown', so a flaky network or CORS block never hides a real video.
+export const createLinkChecker = (fetcher: LinkFetcher = defaultFetcher): LinkChecker =>
+  async (uri, signal) => {
+    const platform = parseVideoUrl(uri)?.platform;
+    const endpoint = platform ? OEMBED_ENDPOINTS[platform] : undefined;
+
+    try {
+      const result = endpoint
+        ? await checkViaOEmbed(fetcher, endpoint, uri, signal)
+        : await checkViaProbe(fetcher, uri, signal);
+      if (result.availability === 'unavailable') console.warn(`Link is no longer available: ${uri}`);
+      return result;
+    } catch (e) {
+      console.warn(`Verification failed (network/CORS): ${uri}`, e);
+      return { availability: 'unknown' };
+    }
+  };
+
+export const checkVideoAvailability: LinkChecker = createLinkChecker();
+
+// Re-check a list of videos a few at a time, stamping each with the result and
+// when it was checked. Generated clips are hosted by us and are skipped.
+export const verifyVideoLinks = async (
+  videos: VideoSearchResult[],
+  options: { checker?: LinkChecker; concurrency?: number; signal?: AbortSignal } = {}
+): Promise<VideoSearchResult[]> => {
+  const { checker = checkVideoAvailability, concurrency = 4, signal } = options;
+  const updated = [...videos];
+  let next = 0;
+
+  const worker = async () => {
+    while (next < videos.length) {
+      const idx = next++;
+      const video = videos[idx];
+      if (video.isGenerated) continue;
+      const { availability, thumbnailUrl } = await checker(video.uri, signal);
+      throwIfAborted(signal);
+      // An inconclusive re-check keeps the last known status
+      updated[idx] = {
+        ...video,
+        availability: availability === 'unknown' && video.availability ? video.availability : availability,
+        thumbnailUrl: video.thumbnailUrl || thumbnailUrl,
+        lastCheckedAt: Date.now()
+      };
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, videos.length) }, worker));
+  return updated;
+};
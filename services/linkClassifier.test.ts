@@ -0,0 +1,116 @@
+import { describe, expect, it } from "vitest";
+import { classifyLink, LINK_RULES, LinkVerdict } from "./linkClassifier";
+
+interface LinkFixture {
+  rule: string;   // The LINK_RULES entry this fixture exercises
+  uri: string;
+  title?: string;
+  verdict: LinkVerdict;
+  ruleId: string; // The rule expected to decide, 'default' when none matches
+}
+
+// Real-world link shapes seen in search results. Every rule has at least one link it
+// lets through and one it keeps out, so a rule that starts matching too much or too
+// little shows up here.
+const FIXTURES: LinkFixture[] = [
+  { rule: 'how-to-video', uri: 'https://www.youtube.com/watch?v=Xk2mP9qLw3s', title: 'How to verify your YouTube channel', verdict: 'reject', ruleId: 'how-to-video' },
+  { rule: 'how-to-video', uri: 'https://www.youtube.com/watch?v=Xk2mP9qLw3s', title: '123 Oak St, Springfield IL - Walkthrough', verdict: 'allow', ruleId: 'youtube-watch' },
+
+  { rule: 'google-maps', uri: 'https://www.google.com/maps/place/123+Oak+St,+Springfield,+IL+62701', verdict: 'reject', ruleId: 'google-maps' },
+  { rule: 'google-maps', uri: 'https://sites.google.com/view/oak-street-open-house/video', verdict: 'allow', ruleId: 'default' },
+
+  { rule: 'google-maps-short-link', uri: 'https://maps.app.goo.gl/8FjvQk3nR2aZ1xYw7', verdict: 'reject', ruleId: 'google-maps-short-link' },
+  { rule: 'google-maps-short-link', uri: 'https://maps.google.com/?q=123+Oak+St+Springfield+IL', verdict: 'reject', ruleId: 'google-maps-short-link' },
+  { rule: 'google-maps-short-link', uri: 'https://goo.gl/photos/Jd8sK2mQ4pR6tV9w7', verdict: 'allow', ruleId: 'default' },
+
+  { rule: 'google-search', uri: 'https://www.google.com/search?q=123+oak+st+springfield+il+video', verdict: 'reject', ruleId: 'google-search' },
+  { rule: 'google-search', uri: 'https://drive.google.com/file/d/1aBcD2eFgH3iJkL4mNoP/view', verdict: 'allow', ruleId: 'default' },
+
+  { rule: 'homepage', uri: 'https://www.springfieldrealty.com/', verdict: 'reject', ruleId: 'homepage' },
+  { rule: 'homepage', uri: 'https://www.zillow.com/?utm_source=google', verdict: 'reject', ruleId: 'homepage' },
+  { rule: 'homepage', uri: 'https://www.springfieldrealty.com/listings/123-oak-st', verdict: 'allow', ruleId: 'default' },
+
+  { rule: 'youtube-channel', uri: 'https://www.youtube.com/@SpringfieldRealty', verdict: 'reject', ruleId: 'youtube-channel' },
+  { rule: 'youtube-channel', uri: 'https://www.youtube.com/channel/UCx7Yq2Lk9PzR3mW5nB8vT1A', verdict: 'reject', ruleId: 'youtube-channel' },
+  { rule: 'youtube-channel', uri: 'https://m.youtube.com/watch?v=Xk2mP9qLw3s', verdict: 'allow', ruleId: 'youtube-watch' },
+
+  { rule: 'youtube-short', uri: 'https://www.youtube.com/shorts/Qw8rT5yU2iO', verdict: 'allow', ruleId: 'youtube-short' },
+  { rule: 'youtube-short', uri: 'https://www.youtube.com/c/SpringfieldRealty', verdict: 'reject', ruleId: 'youtube-channel' },
+
+  { rule: 'youtube-watch', uri: 'https://www.youtube.com/watch?v=Xk2mP9qLw3s&t=42s', verdict: 'allow', ruleId: 'youtube-watch' },
+  { rule: 'youtube-watch', uri: 'https://www.youtube.com/embed/Xk2mP9qLw3s', verdict: 'allow', ruleId: 'youtube-watch' },
+  { rule: 'youtube-watch', uri: 'https://www.youtube.com/user/springfieldrealty', verdict: 'reject', ruleId: 'youtube-channel' },
+
+  { rule: 'youtube-short-link', uri: 'https://youtu.be/Xk2mP9qLw3s?si=abc123', verdict: 'allow', ruleId: 'youtube-short-link' },
+  { rule: 'youtube-short-link', uri: 'https://youtu.be/', verdict: 'reject', ruleId: 'homepage' },
+
+  { rule: 'vimeo-video', uri: 'https://vimeo.com/824519637', verdict: 'allow', ruleId: 'vimeo-video' },
+  { rule: 'vimeo-video', uri: 'https://player.vimeo.com/video/824519637?h=f3a9c2', verdict: 'allow', ruleId: 'vimeo-video' },
+  { rule: 'vimeo-video', uri: 'https://vimeo.com/', verdict: 'reject', ruleId: 'homepage' },
+
+  { rule: 'matterport-tour', uri: 'https://my.matterport.com/show/?m=Zh14WDtkjdC', verdict: 'allow', ruleId: 'matterport-tour' },
+  { rule: 'matterport-tour', uri: 'https://matterport.com/discover/space/oak-street-colonial', verdict: 'allow', ruleId: 'matterport-tour' },
+  { rule: 'matterport-tour', uri: 'https://matterport.com/', verdict: 'reject', ruleId: 'homepage' },
+
+  { rule: 'social-video-post', uri: 'https://www.facebook.com/springfieldrealty/videos/1234567890123456/', verdict: 'allow', ruleId: 'social-video-post' },
+  { rule: 'social-video-post', uri: 'https://www.instagram.com/reel/C4xYz9LmN2p/', verdict: 'allow', ruleId: 'social-video-post' },
+  { rule: 'social-video-post', uri: 'https://www.tiktok.com/@springfieldrealty/video/7301234567890123456', verdict: 'allow', ruleId: 'social-video-post' },
+  { rule: 'social-video-post', uri: 'https://www.facebook.com/', verdict: 'reject', ruleId: 'homepage' },
+
+  { rule: 'zillow-homedetails', uri: 'https://www.zillow.com/homedetails/123-Oak-St-Springfield-IL-62701/5123456_zpid/', verdict: 'allow', ruleId: 'zillow-homedetails' },
+  { rule: 'zillow-homedetails', uri: 'https://www.zillow.com/homes/Springfield,-IL_rb/', verdict: 'reject', ruleId: 'zillow-search' },
+
+  { rule: 'zillow-search', uri: 'https://www.zillow.com/homes/for_sale/62701_rb/', verdict: 'reject', ruleId: 'zillow-search' },
+  { rule: 'zillow-search', uri: 'https://www.zillow.com/homedetails/45-Elm-Ave-Springfield-IL-62704/5234567_zpid/', verdict: 'allow', ruleId: 'zillow-homedetails' },
+
+  { rule: 'realtor-search', uri: 'https://www.realtor.com/realestateandhomes-search/Springfield_IL', verdict: 'reject', ruleId: 'realtor-search' },
+  { rule: 'realtor-search', uri: 'https://www.realtor.com/realestateandhomes-detail/123-Oak-St_Springfield_IL_62701_M71234-56789', verdict: 'allow', ruleId: 'default' },
+
+  { rule: 'redfin-area', uri: 'https://www.redfin.com/city/17640/IL/Springfield', verdict: 'reject', ruleId: 'redfin-area' },
+  { rule: 'redfin-area', uri: 'https://www.redfin.com/zipcode/62701', verdict: 'reject', ruleId: 'redfin-area' },
+  { rule: 'redfin-area', uri: 'https://www.redfin.com/IL/Springfield/123-Oak-St-62701/home/12345678', verdict: 'allow', ruleId: 'default' },
+
+  { rule: 'trulia-property', uri: 'https://www.trulia.com/p/il/springfield/123-oak-st-springfield-il-62701--2081234567', verdict: 'allow', ruleId: 'trulia-property' },
+  { rule: 'trulia-property', uri: 'https://www.trulia.com/for_sale/Springfield,IL/', verdict: 'reject', ruleId: 'trulia-search' },
+
+  { rule: 'trulia-search', uri: 'https://www.trulia.com/for_rent/Springfield,IL/', verdict: 'reject', ruleId: 'trulia-search' },
+  { rule: 'trulia-search', uri: 'https://www.trulia.com/p/il/springfield/45-elm-ave-springfield-il-62704--2087654321', verdict: 'allow', ruleId: 'trulia-property' }
+];
+
+describe("classifyLink", () => {
+  it.each(FIXTURES)("$rule: $uri -> $verdict ($ruleId)", ({ uri, title, verdict, ruleId }) => {
+    const classification = classifyLink(uri, title);
+    expect(classification).toMatchObject({ verdict, ruleId });
+
+    const rule = LINK_RULES.find(r => r.id === ruleId);
+    if (rule) expect(classification).toMatchObject({ linkType: rule.linkType, reason: rule.reason });
+  });
+
+  it("has an accepted and a rejected fixture for every rule", () => {
+    for (const rule of LINK_RULES) {
+      const verdicts = FIXTURES.filter(fixture => fixture.rule === rule.id).map(fixture => fixture.verdict);
+      expect(verdicts, rule.id).toContain('allow');
+      expect(verdicts, rule.id).toContain('reject');
+    }
+  });
+
+  it("rejects links that aren't http(s) URLs", () => {
+    for (const uri of ['ftp://example.com/tour.mp4', 'javascript:alert(1)', 'www.youtube.com/watch?v=Xk2mP9qLw3s', 'https://']) {
+      expect(classifyLink(uri), uri).toMatchObject({ verdict: 'reject', linkType: 'invalid', ruleId: 'invalid-url' });
+    }
+  });
+
+  it("keeps pages no rule knows about", () => {
+    expect(classifyLink('https://www.springfieldrealty.com/tours/123-oak-st')).toEqual({
+      verdict: 'allow',
+      linkType: 'unknown',
+      reason: "No rule matched",
+      ruleId: 'default'
+    });
+  });
+
+  it("matches subdomains but not look-alike hosts", () => {
+    expect(classifyLink('https://m.youtube.com/@SpringfieldRealty').ruleId).toBe('youtube-channel');
+    expect(classifyLink('https://notyoutube.com/@SpringfieldRealty').ruleId).toBe('default');
+  });
+});
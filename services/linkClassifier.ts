@@ -0,0 +1,213 @@
+import { LinkType } from "../types";
+
+// Declarative rules deciding which links found by a search are worth showing.
+// Rules are checked top to bottom and the first match wins, so specific
+// "allow" rules for a domain must come before its broader "reject" rules.
+
+export type { LinkType };
+
+export type LinkVerdict = 'allow' | 'reject';
+
+export interface LinkClassification {
+  verdict: LinkVerdict;
+  linkType: LinkType;
+  reason: string;
+  ruleId: string;
+}
+
+export interface LinkRule {
+  id: string;
+  // Hostnames the rule applies to (subdomains included). Omit to match any host.
+  hosts?: string[];
+  // Tested against the path plus query string, e.g. "/watch?v=abc"
+  pathPattern?: RegExp;
+  // Tested against the link title reported by the search
+  titlePattern?: RegExp;
+  verdict: LinkVerdict;
+  linkType: LinkType;
+  reason: string;
+}
+
+export const LINK_RULES: LinkRule[] = [
+  // --- Unrelated content ---
+  {
+    id: 'how-to-video',
+    titlePattern: /how to verify|verify youtube channel/i,
+    verdict: 'reject',
+    linkType: 'unrelated',
+    reason: "Generic how-to video, not a property tour"
+  },
+
+  // --- Google ---
+  {
+    id: 'google-maps',
+    hosts: ['google.com'],
+    pathPattern: /^\/maps/,
+    verdict: 'reject',
+    linkType: 'map',
+    reason: "Google Maps page, not a video"
+  },
+  {
+    id: 'google-maps-short-link',
+    hosts: ['maps.google.com', 'maps.app.goo.gl'],
+    verdict: 'reject',
+    linkType: 'map',
+    reason: "Google Maps page, not a video"
+  },
+  {
+    id: 'google-search',
+    hosts: ['google.com'],
+    pathPattern: /^\/search/,
+    verdict: 'reject',
+    linkType: 'search-page',
+    reason: "Google search results page"
+  },
+
+  // --- Homepages ---
+  {
+    id: 'homepage',
+    pathPattern: /^\/?(\?.*)?$/,
+    verdict: 'reject',
+    linkType: 'homepage',
+    reason: "Site homepage, not a specific video or listing"
+  },
+
+  // --- YouTube ---
+  {
+    id: 'youtube-channel',
+    hosts: ['youtube.com'],
+    pathPattern: /^\/(channel|user|c)\/|^\/@/,
+    verdict: 'reject',
+    linkType: 'channel',
+    reason: "YouTube channel page, not a specific video"
+  },
+  {
+    id: 'youtube-short',
+    hosts: ['youtube.com'],
+    pathPattern: /^\/shorts\//,
+    verdict: 'allow',
+    linkType: 'short',
+    reason: "YouTube Short"
+  },
+  {
+    id: 'youtube-watch',
+    hosts: ['youtube.com'],
+    pathPattern: /^\/(watch\?|embed\/|live\/)/,
+    verdict: 'allow',
+    linkType: 'video',
+    reason: "YouTube video"
+  },
+  {
+    id: 'youtube-short-link',
+    hosts: ['youtu.be'],
+    verdict: 'allow',
+    linkType: 'video',
+    reason: "YouTube share link"
+  },
+
+  // --- Other video platforms ---
+  {
+    id: 'vimeo-video',
+    hosts: ['vimeo.com', 'player.vimeo.com'],
+    pathPattern: /\/\d+/,
+    verdict: 'allow',
+    linkType: 'video',
+    reason: "Vimeo video"
+  },
+  {
+    id: 'matterport-tour',
+    hosts: ['matterport.com'],
+    pathPattern: /^\/(show|discover\/space)/,
+    verdict: 'allow',
+    linkType: '3d-tour',
+    reason: "Matterport 3D tour"
+  },
+  {
+    id: 'social-video-post',
+    hosts: ['facebook.com', 'fb.watch', 'instagram.com', 'tiktok.com'],
+    pathPattern: /\/(videos?|watch|reel|reels|p|tv)\/|\/video\/\d+|^\/watch/,
+    verdict: 'allow',
+    linkType: 'social-post',
+    reason: "Social media video post"
+  },
+
+  // --- Listing aggregators ---
+  {
+    id: 'zillow-homedetails',
+    hosts: ['zillow.com'],
+    pathPattern: /^\/homedetails\//,
+    verdict: 'allow',
+    linkType: 'listing',
+    reason: "Zillow listing page, may include a video tour"
+  },
+  {
+    id: 'zillow-search',
+    hosts: ['zillow.com'],
+    pathPattern: /^\/homes\/|_rb/,
+    verdict: 'reject',
+    linkType: 'search-page',
+    reason: "Zillow map/search page"
+  },
+  {
+    id: 'realtor-search',
+    hosts: ['realtor.com'],
+    pathPattern: /-search|\/realestateandhomes-search\//,
+    verdict: 'reject',
+    linkType: 'search-page',
+    reason: "Realtor.com search results page"
+  },
+  {
+    id: 'redfin-area',
+    hosts: ['redfin.com'],
+    pathPattern: /\/(city|zipcode|neighborhood|county)\//,
+    verdict: 'reject',
+    linkType: 'search-page',
+    reason: "Redfin area listing page"
+  },
+  {
+    id: 'trulia-property',
+    hosts: ['trulia.com'],
+    pathPattern: /^\/p\//,
+    verdict: 'allow',
+    linkType: 'listing',
+    reason: "Trulia property page, may include a video tour"
+  },
+  {
+    id: 'trulia-search',
+    hosts: ['trulia.com'],
+    pathPattern: /\/(for_sale|sold|for_rent)\//,
+    verdict: 'reject',
+    linkType: 'search-page',
+    reason: "Trulia search results page"
+  }
+];
+
+const matchesHost = (hostname: string, hosts: string[]): boolean =>
+  hosts.some(host => hostname === host || hostname.endsWith(`.${host}`));
+
+export const classifyLink = (
+  uri: string,
+  title: string = "",
+  rules: LinkRule[] = LINK_RULES
+): LinkClassification => {
+  let url: URL;
+  try {
+    if (!/^https?:\/\//i.test(uri)) throw new Error("Not an http(s) link");
+    url = new URL(uri);
+  } catch (e) {
+    return { verdict: 'reject', linkType: 'invalid', reason: "Not a valid http(s) URL", ruleId: 'invalid-url' };
+  }
+
+  const hostname = url.hostname.toLowerCase();
+  const pathAndQuery = `${url.pathname}${url.search}`;
+
+  for (const rule of rules) {
+    if (rule.hosts && !matchesHost(hostname, rule.hosts)) continue;
+    if (rule.pathPattern && !rule.pathPattern.test(pathAndQuery)) continue;
+    if (rule.titlePattern && !rule.titlePattern.test(title)) continue;
+    return { verdict: rule.verdict, linkType: rule.linkType, reason: rule.reason, ruleId: rule.id };
+  }
+
+  // Unknown pages are kept: the model's grounding already judged them relevant
+  return { verdict: 'allow', linkType: 'unknown', reason: "No rule matched", ruleId: 'default' };
+};
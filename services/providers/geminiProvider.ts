@@ -0,0 +1,10 @@
+import { VideoSearchProvider } from "../../types";
+import { searchPropertyVideos, hasGeminiApiKey } from "../geminiClient";
+
+// Gemini with Google Search grounding - the original (and default) search backend
+export const geminiProvider: VideoSearchProvider = {
+  id: 'gemini',
+  name: 'Gemini Search',
+  isConfigured: hasGeminiApiKey,
+  search: (details, frontImage, backImage, options) => searchPropertyVideos(details, frontImage, backImage, options)
+};
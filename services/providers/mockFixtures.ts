@@ -0,0 +1,32 @@
+import { SearchResponse } from "../../types";
+
+// Canned responses for the offline mock provider, keyed by lower-cased street.
+// Anything not listed here gets a generated response (see mockProvider.ts).
+export const MOCK_SEARCH_FIXTURES: Record<string, SearchResponse> = {
+  "123 maple dr": {
+    summary: "Found a YouTube walkthrough, a drone clip on Vimeo and a Matterport 3D tour for 123 Maple Dr, Beverly Hills.",
+    videos: [
+      {
+        title: "123 Maple Dr, Beverly Hills - Full Walkthrough",
+        uri: "https://www.youtube.com/watch?v=mockMaple01",
+        source: "www.youtube.com"
+      },
+      {
+        title: "Maple Drive Estate - Drone Footage",
+        uri: "https://vimeo.com/100000001",
+        source: "vimeo.com"
+      },
+      {
+        title: "123 Maple Dr - Matterport 3D Tour",
+        uri: "https://my.matterport.com/show/?m=mockMaple3D",
+        source: "my.matterport.com"
+      }
+    ],
+    found: true
+  },
+  "1 empty lot ln": {
+    summary: "No video tours found.",
+    videos: [],
+    found: false
+  }
+};
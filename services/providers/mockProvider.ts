@@ -0,0 +1,50 @@
+import { VideoSearchProvider, SearchResponse, PropertyDetails } from "../../types";
+import { MOCK_SEARCH_FIXTURES } from "./mockFixtures";
+import { throwIfAborted } from "../abort";
+
+// Small stable string hash so the same address always yields the same fake IDs
+const hashString = (input: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < input.length; i++) {
+    hash = ((hash << 5) + hash + input.charCodeAt(i)) >>> 0;
+  }
+  return hash.toString(36);
+};
+
+const buildGeneratedResponse = (details: PropertyDetails): SearchResponse => {
+  const id = hashString(`${details.street}|${details.city}|${details.state}|${details.zip}|${details.mlsNumber}`);
+  return {
+    summary: `[Mock] Found 2 videos for ${details.street}, ${details.city}, ${details.state} ${details.zip} (MLS ${details.mlsNumber}).`,
+    videos: [
+      {
+        title: `${details.street} - Video Tour`,
+        uri: `https://www.youtube.com/watch?v=mock${id}`,
+        source: "www.youtube.com"
+      },
+      {
+        title: `${details.street}, ${details.city} - Listing Walkthrough`,
+        uri: `https://vimeo.com/mock${id}`,
+        source: "vimeo.com"
+      }
+    ],
+    found: true
+  };
+};
+
+// Deterministic, fixture-backed provider. Needs no network or API key.
+export const mockProvider: VideoSearchProvider = {
+  id: 'mock',
+  name: 'Mock (Offline)',
+  isConfigured: () => true,
+  search: async (details, _frontImage, _backImage, options = {}) => {
+    throwIfAborted(options.signal);
+    options.onProgress?.({ stage: 'querying', message: "Loading mock results..." });
+    const fixture = MOCK_SEARCH_FIXTURES[details.street.trim().toLowerCase()];
+    const response = fixture || buildGeneratedResponse(details);
+    // Return copies so callers can mutate results without touching the fixtures
+    return {
+      ...response,
+      videos: response.videos.map(v => ({ ...v }))
+    };
+  }
+};
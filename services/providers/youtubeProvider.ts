@@ -0,0 +1,25 @@
+import { VideoSearchProvider } from "../../types";
+
+// YouTube Data API v3 search; does not use the photos. The key stays on the server, so
+// the browser goes through the API server and Node callers (the watch worker) call directly.
+const isServer = typeof window === 'undefined';
+const load = () => isServer ? import("../youtubeService") : import("../geminiProxy");
+
+export const youtubeProvider: VideoSearchProvider = {
+  id: 'youtube',
+  name: 'YouTube',
+  // The browser learns about a missing key from the server's first answer
+  isConfigured: () => !isServer || !!process.env.YOUTUBE_API_KEY,
+  search: async (details, _frontImage, _backImage, options = {}) => {
+    options.onProgress?.({ stage: 'querying', message: "Searching YouTube..." });
+    const videos = await (await load()).searchYouTubeVideos(details, options.signal);
+
+    return {
+      summary: videos.length > 0
+        ? `YouTube returned ${videos.length} video(s) matching ${details.street}, ${details.city}.`
+        : "No video tours found on YouTube.",
+      videos,
+      found: videos.length > 0
+    };
+  }
+};
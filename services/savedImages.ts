@@ -0,0 +1,47 @@
+import { ImageFile, SerializableImage } from "../types";
+
+// Rebuild an uploadable image from the base64 copy stored with a saved search
+export const fromSerializableImage = (image: SerializableImage | undefined, fallbackName: string): ImageFile | null =>
+  image ? {
+    file: new File([], image.name || fallbackName, { type: image.mimeType }),
+    preview: `data:${image.mimeType};base64,${image.base64}`,
+    base64: image.base64,
+    mimeType: image.mimeType
+  } : null;
+
+// Raw bytes for storage that keeps Blobs (IndexedDB): a third smaller than base64 text
+export const toImageBlob = (image: SerializableImage): Blob => {
+  const binary = atob(image.base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: image.mimeType });
+};
+
+export const fromImageBlob = (blob: Blob, name?: string): Promise<SerializableImage> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const dataUrl = typeof reader.result === 'string' ? reader.result : '';
+      resolve({ base64: dataUrl.slice(dataUrl.indexOf(',') + 1), mimeType: blob.type, name });
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Small JPEG preview for saved search lists; null when the image can't be decoded
+export const createImageThumbnail = (image: SerializableImage, maxSize: number = 160): Promise<string | null> =>
+  new Promise((resolve) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, maxSize / Math.max(img.width, img.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(img.width * scale);
+      canvas.height = Math.round(img.height * scale);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return resolve(null);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.7));
+    };
+    img.onerror = () => resolve(null);
+    img.src = `data:${image.mimeType};base64,${image.base64}`;
+  });
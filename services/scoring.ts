@@ -0,0 +1,91 @@
+import { PropertyDetails, VideoSearchResult, VideoDiscoverySource } from "../types";
+import { parseVideoUrl } from "./videoUrl";
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+export interface ConfidenceScore {
+  score: number;
+  reasons: string[];
+}
+
+const BASE_SCORE = 30;
+
+const DISCOVERY_WEIGHTS: Record<VideoDiscoverySource, { points: number; reason: string }> = {
+  grounding: { points: 20, reason: "Cited by Google Search grounding" },
+  structured: { points: 15, reason: "Listed by the model as a match" },
+  provider: { points: 10, reason: "Returned by a video search API" },
+  text: { points: -10, reason: "Only mentioned in the summary text" }
+};
+
+// Street suffixes and directionals carry no identifying information on their own
+const STREET_NOISE = new Set([
+  'st', 'street', 'ave', 'avenue', 'rd', 'road', 'dr', 'drive', 'ln', 'lane', 'blvd', 'boulevard',
+  'ct', 'court', 'pl', 'place', 'way', 'ter', 'terrace', 'cir', 'circle', 'pkwy', 'parkway', 'hwy',
+  'n', 's', 'e', 'w', 'ne', 'nw', 'se', 'sw', 'north', 'south', 'east', 'west', 'apt', 'unit'
+]);
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+export const getConfidenceLevel = (score: number): ConfidenceLevel =>
+  score >= 70 ? 'high' : score >= 45 ? 'medium' : 'low';
+
+export const scoreVideo = (
+  video: VideoSearchResult,
+  details: PropertyDetails
+): ConfidenceScore => {
+  let score = BASE_SCORE;
+  const reasons: string[] = [];
+  const add = (points: number, reason: string) => {
+    score += points;
+    reasons.push(reason);
+  };
+
+  // 1. How the link was found
+  if (video.discoveredVia) {
+    const weight = DISCOVERY_WEIGHTS[video.discoveredVia];
+    add(weight.points, weight.reason);
+  }
+
+  // 2. Address and MLS tokens in the title (and the model's stated reason)
+  const haystack = new Set(tokenize(`${video.title} ${video.reason || ""}`));
+  const streetTokens = tokenize(details.street);
+  const houseNumber = streetTokens.find(t => /^\d+$/.test(t));
+  const streetNames = streetTokens.filter(t => !/^\d+$/.test(t) && !STREET_NOISE.has(t));
+  const mlsDigits = details.mlsNumber.replace(/\D/g, "");
+
+  if (houseNumber && haystack.has(houseNumber)) add(15, "House number in title");
+  if (streetNames.length > 0 && streetNames.every(t => haystack.has(t))) add(10, "Street name in title");
+  const cityTokens = tokenize(details.city);
+  if (cityTokens.length > 0 && cityTokens.every(t => haystack.has(t))) add(5, "City in title");
+  if (mlsDigits.length >= 4 && haystack.has(mlsDigits)) add(20, "MLS number in title");
+
+  // 3. Platform: direct video links beat generic pages
+  if (parseVideoUrl(video.uri)) {
+    add(10, "Direct video link");
+  } else if (video.contentType !== 'listing') {
+    add(-5, "Not a recognised video platform");
+  }
+
+  // 4. Availability check
+  if (video.availability === 'available') add(10, "Availability confirmed");
+  if (video.availability === 'unavailable') add(-30, "Reported as unavailable");
+
+  // 5. Visual match against the uploaded photos (only present when photos were given)
+  if (video.visualMatch === 'match') add(25, "Thumbnail matches your photos");
+  if (video.visualMatch === 'mismatch') add(-40, "Thumbnail shows a different property");
+
+  return { score: Math.max(0, Math.min(100, score)), reasons };
+};
+
+// Attach confidence to each video and sort highest first. Ties keep their original order.
+export const rankVideos = (
+  videos: VideoSearchResult[],
+  details: PropertyDetails
+): VideoSearchResult[] =>
+  videos
+    .map(video => {
+      const { score, reasons } = scoreVideo(video, details);
+      return { ...video, confidence: score, confidenceReasons: reasons };
+    })
+    .sort((a, b) => b.confidence - a.confidence);
@@ -0,0 +1,103 @@
+import { doc, getDoc, setDoc } from "firebase/firestore";
+import { PropertyDetails, ImageFile, SearchResponse } from "../types";
+import { db } from "./firebase";
+import { getEnv } from "./env";
+import { STORES, idbGet, idbPut, idbDelete, isIndexedDbAvailable } from "./indexedDb";
+
+export interface CachedSearch {
+  key: string;
+  cachedAt: number;
+  response: SearchResponse;
+  userId?: string;
+}
+
+const DEFAULT_TTL_HOURS = 24;
+
+// How long a cached search stays usable; VITE_SEARCH_CACHE_TTL_HOURS=0 disables the cache
+export const getCacheTtlMs = (): number => {
+  const hours = parseFloat(getEnv("VITE_SEARCH_CACHE_TTL_HOURS"));
+  return (Number.isFinite(hours) && hours >= 0 ? hours : DEFAULT_TTL_HOURS) * 60 * 60 * 1000;
+};
+
+const STREET_ABBREVIATIONS: Record<string, string> = {
+  street: "st", avenue: "ave", road: "rd", drive: "dr", lane: "ln", boulevard: "blvd",
+  court: "ct", place: "pl", terrace: "ter", circle: "cir", highway: "hwy", parkway: "pkwy",
+  north: "n", south: "s", east: "e", west: "w"
+};
+
+const normalizeText = (value: string): string =>
+  value.toLowerCase().replace(/[.,#]/g, " ").replace(/\s+/g, " ").trim();
+
+// "123 Maple Drive" and "123 maple dr." describe the same property, as do "MLS#123" and "123"
+export const normalizePropertyDetails = (details: PropertyDetails): PropertyDetails => ({
+  street: normalizeText(details.street).split(" ").map(word => STREET_ABBREVIATIONS[word] || word).join(" "),
+  city: normalizeText(details.city),
+  state: normalizeText(details.state),
+  zip: details.zip.trim().slice(0, 5),
+  mlsNumber: details.mlsNumber.toUpperCase().replace(/^MLS#?\s*/, "").trim()
+});
+
+const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, "0")).join("");
+};
+
+// Same address with different photos is a different search, since the photos drive verification
+export const buildCacheKey = async (
+  details: PropertyDetails,
+  frontImage: ImageFile | null,
+  backImage: ImageFile | null
+): Promise<string> => {
+  const imageHashes = await Promise.all(
+    [frontImage, backImage].map(image => image ? sha256(image.base64) : Promise.resolve(""))
+  );
+  return sha256(JSON.stringify({ details: normalizePropertyDetails(details), images: imageHashes }));
+};
+
+// Signed-in users share their cache across devices through Firestore; everyone else uses IndexedDB
+const firestoreDocId = (key: string, userId: string) => `${userId}_${key}`;
+
+const readEntry = async (key: string, userId?: string): Promise<CachedSearch | undefined> => {
+  if (db && userId) {
+    const snapshot = await getDoc(doc(db, 'searchCache', firestoreDocId(key, userId)));
+    return snapshot.exists() ? snapshot.data() as CachedSearch : undefined;
+  }
+  if (!isIndexedDbAvailable()) return undefined;
+  return idbGet<CachedSearch>(STORES.searchCache, key);
+};
+
+// Returns a cached response that is still within the TTL, or null.
+// Cache problems never block a search, so failures are logged and treated as a miss.
+export const getCachedSearch = async (key: string, userId?: string): Promise<CachedSearch | null> => {
+  const ttlMs = getCacheTtlMs();
+  if (ttlMs === 0) return null;
+
+  try {
+    const entry = await readEntry(key, userId);
+    if (!entry) return null;
+    if (Date.now() - entry.cachedAt > ttlMs) {
+      if (!(db && userId)) await idbDelete(STORES.searchCache, key);
+      return null;
+    }
+    return entry;
+  } catch (e) {
+    console.warn("Search cache read failed:", e);
+    return null;
+  }
+};
+
+export const saveCachedSearch = async (key: string, response: SearchResponse, userId?: string): Promise<void> => {
+  if (getCacheTtlMs() === 0) return;
+
+  // Firestore rejects undefined fields, so round-trip through JSON to drop them
+  const entry: CachedSearch = JSON.parse(JSON.stringify({ key, cachedAt: Date.now(), response, userId }));
+  try {
+    if (db && userId) {
+      await setDoc(doc(db, 'searchCache', firestoreDocId(key, userId)), entry);
+    } else if (isIndexedDbAvailable()) {
+      await idbPut(STORES.searchCache, entry);
+    }
+  } catch (e) {
+    console.warn("Search cache write failed:", e);
+  }
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it, vi } from "vitest";
+import { VideoSearchResult } from "../types";
+import { LinkChecker } from "./linkCheck";
+import { diffSearchResults, recheckMissingVideos } from "./searchDiff";
+
+const video = (id: string, extra: Partial<VideoSearchResult> = {}): VideoSearchResult => ({
+  title: `Tour ${id}`,
+  uri: `https://www.youtube.com/watch?v=${id}`,
+  source: "www.youtube.com",
+  ...extra
+});
+
+describe("recheckMissingVideos", () => {
+  it("adds saved videos that didn't come back and are dead as unavailable", async () => {
+    const saved = [video("kept0000001"), video("dead0000001"), video("gone0000001"), video("veo", { isGenerated: true, uri: "https://api.example.com/veo.mp4" })];
+    const fresh = [video("kept0000001"), video("new00000001")];
+    const checker = vi.fn<LinkChecker>(async uri => ({ availability: uri.includes("dead") ? 'unavailable' : 'available' }));
+
+    const rechecked = await recheckMissingVideos(saved, fresh, { checker });
+    // Only the missing, non-generated videos are checked
+    expect(checker.mock.calls.map(([uri]) => uri)).toEqual([saved[1].uri, saved[2].uri]);
+
+    const diff = diffSearchResults(saved, rechecked);
+    expect(diff.unavailable.map(v => v.uri)).toEqual([saved[1].uri]);
+    expect(diff.disappeared.map(v => v.uri)).toEqual([saved[2].uri]);
+    expect(diff.added.map(v => v.uri)).toEqual([fresh[1].uri]);
+    expect(diff.unchanged.map(v => v.uri)).toEqual([saved[0].uri, saved[3].uri]);
+  });
+
+  it("leaves the fresh list alone when every saved video came back", async () => {
+    const fresh = [video("kept0000001")];
+    const checker = vi.fn<LinkChecker>();
+    expect(await recheckMissingVideos([video("kept0000001")], fresh, { checker })).toBe(fresh);
+    expect(checker).not.toHaveBeenCalled();
+  });
+});
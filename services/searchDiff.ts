@@ -0,0 +1,64 @@
+import { SearchDiff, VideoSearchResult } from "../types";
+import { canonicalVideoKey } from "./videoUrl";
+import { LinkChecker, verifyVideoLinks } from "./linkCheck";
+
+// Compare a saved video list with a fresh search. Generated clips never come back
+// from a search, so they are always treated as unchanged.
+export const diffSearchResults = (saved: VideoSearchResult[], fresh: VideoSearchResult[]): SearchDiff => {
+  const freshByKey = new Map(fresh.map(video => [canonicalVideoKey(video.uri), video]));
+  const savedKeys = new Set(saved.map(video => canonicalVideoKey(video.uri)));
+  const diff: SearchDiff = { added: [], disappeared: [], unavailable: [], unchanged: [] };
+
+  saved.forEach(video => {
+    const match = freshByKey.get(canonicalVideoKey(video.uri));
+    if (video.isGenerated) {
+      diff.unchanged.push(video);
+    } else if (!match) {
+      diff.disappeared.push(video);
+    } else if (match.availability === 'unavailable') {
+      diff.unavailable.push({ ...video, availability: 'unavailable' });
+    } else {
+      diff.unchanged.push(video);
+    }
+  });
+
+  fresh.forEach(video => {
+    if (!savedKeys.has(canonicalVideoKey(video.uri)) && video.availability !== 'unavailable') {
+      diff.added.push(video);
+    }
+  });
+
+  return diff;
+};
+
+// Searches leave dead links out, so a saved video missing from a fresh search may be gone
+// or may just not have been found this time. Check those directly and return the fresh
+// list with the dead ones added back as unavailable, ready for diffSearchResults.
+export const recheckMissingVideos = async (
+  saved: VideoSearchResult[],
+  fresh: VideoSearchResult[],
+  options: { checker?: LinkChecker; signal?: AbortSignal } = {}
+): Promise<VideoSearchResult[]> => {
+  const freshKeys = new Set(fresh.map(video => canonicalVideoKey(video.uri)));
+  const missing = saved.filter(video => !video.isGenerated && !freshKeys.has(canonicalVideoKey(video.uri)));
+  if (missing.length === 0) return fresh;
+
+  const rechecked = await verifyVideoLinks(missing, options);
+  return [...fresh, ...rechecked.filter(video => video.availability === 'unavailable')];
+};
+
+// Build the updated video list from the changes the user accepted, identified by canonical key
+export const applySearchDiff = (
+  saved: VideoSearchResult[],
+  diff: SearchDiff,
+  acceptedKeys: Set<string>
+): VideoSearchResult[] => {
+  const removedKeys = new Set(
+    [...diff.disappeared, ...diff.unavailable]
+      .map(video => canonicalVideoKey(video.uri))
+      .filter(key => acceptedKeys.has(key))
+  );
+  const kept = saved.filter(video => !removedKeys.has(canonicalVideoKey(video.uri)));
+  const added = diff.added.filter(video => acceptedKeys.has(canonicalVideoKey(video.uri)));
+  return [...kept, ...added];
+};
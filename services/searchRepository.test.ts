@@ -0,0 +1,287 @@
+import "fake-indexeddb/auto";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { deleteApp, initializeApp } from "firebase/app";
+import { connectFirestoreEmulator, getFirestore, terminate } from "firebase/firestore";
+import { SavedSearch, SavedSearchQuery, VideoSearchResult } from "../types";
+import {
+  SearchPage,
+  SearchRepository,
+  createFirestoreSearchRepository,
+  createIndexedDbSearchRepository,
+  createLocalSearchRepository
+} from "./searchRepository";
+
+// Stands in for window.localStorage
+class MemoryStorage implements Storage {
+  [name: string]: any;
+  private items = new Map<string, string>();
+  get length() { return this.items.size; }
+  clear() { this.items.clear(); }
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  key(index: number) { return Array.from(this.items.keys())[index] ?? null; }
+  removeItem(key: string) { this.items.delete(key); }
+  setItem(key: string, value: string) { this.items.set(key, String(value)); }
+}
+
+// Every test uses its own users and emails, so stores that outlive a test (IndexedDB,
+// the Firestore emulator) need no clearing between tests
+let counter = 0;
+const uniqueUser = () => {
+  const id = `user-${Date.now().toString(36)}-${++counter}`;
+  return { userId: id, email: `${id}@example.com` };
+};
+
+const BASE_TIME = 1_700_000_000_000;
+const DAY = 24 * 60 * 60 * 1000;
+
+const video = (id: string): VideoSearchResult => ({
+  title: `Tour ${id}`,
+  uri: `https://www.youtube.com/watch?v=${id}`,
+  source: "www.youtube.com"
+});
+
+const savedSearch = (userId: string, title: string, day: number, overrides: Partial<SavedSearch> = {}): SavedSearch => {
+  const videos = overrides.results?.videos ?? [video(`${title.replace(/\W/g, '')}0001`)];
+  return {
+    userId,
+    timestamp: BASE_TIME + day * DAY,
+    title,
+    propertyDetails: { street: title, city: "Springfield", state: "IL", zip: "62701", mlsNumber: `MLS-${title}` },
+    ...overrides,
+    results: { summary: `Summary for ${title}`, videos, found: videos.length > 0 }
+  };
+};
+
+const titles = (searches: SavedSearch[]) => searches.map(search => search.title);
+
+const readAllPages = async (first: SearchPage): Promise<SavedSearch[][]> => {
+  const pages = [first.items];
+  for (let page = first; page.next; ) {
+    page = await page.next();
+    pages.push(page.items);
+  }
+  return pages;
+};
+
+const pageQuery = (userId: string, overrides: Partial<SavedSearchQuery> = {}): SavedSearchQuery =>
+  ({ userId, scope: 'owned', sort: 'newest', ...overrides });
+
+// The behaviour every SearchRepository promises, whatever it stores searches in
+const describeSearchRepositoryContract = (name: string, getRepository: () => SearchRepository, skip = false) =>
+  (skip ? describe.skip : describe)(`${name} SearchRepository contract`, () => {
+    it("creates a search with an id and gets it back", async () => {
+      const repository = getRepository();
+      const { userId } = uniqueUser();
+      const created = await repository.create(savedSearch(userId, "12 Oak St", 1));
+
+      expect(created.id).toBeTruthy();
+      expect(await repository.get(created.id!)).toMatchObject({
+        id: created.id,
+        userId,
+        title: "12 Oak St",
+        results: { found: true, videos: [video("12OakSt0001")] }
+      });
+    });
+
+    it("stores the street as the title when a search has none", async () => {
+      const repository = getRepository();
+      const { userId } = uniqueUser();
+      const { title, ...untitled } = savedSearch(userId, "12 Oak St", 1);
+      const created = await repository.create(untitled);
+
+      expect(created.title).toBe("12 Oak St");
+      expect((await repository.get(created.id!))?.title).toBe("12 Oak St");
+    });
+
+    it("gets null for a search that doesn't exist", async () => {
+      expect(await getRepository().get(`missing-${uniqueUser().userId}`)).toBeNull();
+    });
+
+    it("lists a user's own searches, newest first", async () => {
+      const repository = getRepository();
+      const owner = uniqueUser();
+      const other = uniqueUser();
+      await repository.create(savedSearch(owner.userId, "Older", 1));
+      await repository.create(savedSearch(owner.userId, "Newer", 2));
+      await repository.create(savedSearch(other.userId, "Someone else's", 3));
+
+      expect(titles(await repository.listOwned(owner.userId))).toEqual(["Newer", "Older"]);
+    });
+
+    it("lists searches shared with an email, whatever its case", async () => {
+      const repository = getRepository();
+      const owner = uniqueUser();
+      const friend = uniqueUser();
+      await repository.create(savedSearch(owner.userId, "Shared", 2, { sharedWith: [friend.email] }));
+      await repository.create(savedSearch(owner.userId, "Private", 3));
+
+      expect(titles(await repository.listShared(friend.email.toUpperCase()))).toEqual(["Shared"]);
+      expect(await repository.listShared(owner.email)).toEqual([]);
+    });
+
+    it("updates only the fields it is given", async () => {
+      const repository = getRepository();
+      const { userId } = uniqueUser();
+      const created = await repository.create(savedSearch(userId, "Before", 1));
+
+      await repository.update(created.id!, { title: "After", watched: true });
+      expect(await repository.get(created.id!)).toMatchObject({ title: "After", watched: true, userId, timestamp: created.timestamp });
+    });
+
+    it("rejects an update to a search that doesn't exist", async () => {
+      await expect(getRepository().update(`missing-${uniqueUser().userId}`, { title: "Nope" })).rejects.toThrow();
+    });
+
+    it("deletes a search and leaves the others", async () => {
+      const repository = getRepository();
+      const { userId } = uniqueUser();
+      const kept = await repository.create(savedSearch(userId, "Kept", 1));
+      const removed = await repository.create(savedSearch(userId, "Removed", 2));
+
+      await repository.delete(removed.id!);
+      expect(await repository.get(removed.id!)).toBeNull();
+      expect((await repository.listOwned(userId)).map(s => s.id)).toEqual([kept.id]);
+    });
+
+    it("merges sources into the target and deletes them, skipping missing ones", async () => {
+      const repository = getRepository();
+      const { userId } = uniqueUser();
+      const target = await repository.create(savedSearch(userId, "Target", 1, { results: { summary: "", videos: [video("target00001")], found: true } }));
+      const source = await repository.create(savedSearch(userId, "Source", 2, { results: { summary: "", videos: [video("source00001")], found: true } }));
+      const combine = vi.fn((current: SavedSearch, sources: SavedSearch[]) => ({
+        ...current.results,
+        videos: [...current.results.videos, ...sources.flatMap(s => s.results.videos)]
+      }));
+
+      const merged = await repository.merge(target.id!, [source.id!, `missing-${userId}`], combine);
+
+      expect(titles(combine.mock.calls[combine.mock.calls.length - 1][1])).toEqual(["Source"]);
+      expect(merged.results.videos).toEqual([video("target00001"), video("source00001")]);
+      expect(merged.timestamp).toBeGreaterThan(target.timestamp);
+      expect(await repository.get(target.id!)).toMatchObject({ results: { videos: merged.results.videos }, timestamp: merged.timestamp });
+      expect(await repository.get(source.id!)).toBeNull();
+    });
+
+    it("rejects a merge into a search that doesn't exist and deletes nothing", async () => {
+      const repository = getRepository();
+      const { userId } = uniqueUser();
+      const source = await repository.create(savedSearch(userId, "Source", 1));
+
+      await expect(repository.merge(`missing-${userId}`, [source.id!], current => current.results)).rejects.toThrow();
+      expect(await repository.get(source.id!)).not.toBeNull();
+    });
+
+    describe("listPage", () => {
+      it("pages through owned searches in order", async () => {
+        const repository = getRepository();
+        const { userId } = uniqueUser();
+        for (const [day, title] of ["A", "B", "C", "D", "E"].entries()) {
+          await repository.create(savedSearch(userId, title, day));
+        }
+
+        const newest = await readAllPages(await repository.listPage(pageQuery(userId), 2));
+        expect(newest.map(titles)).toEqual([["E", "D"], ["C", "B"], ["A"]]);
+        const oldest = await readAllPages(await repository.listPage(pageQuery(userId, { sort: 'oldest' }), 3));
+        expect(oldest.map(titles)).toEqual([["A", "B", "C"], ["D", "E"]]);
+      });
+
+      it("sorts by title", async () => {
+        const repository = getRepository();
+        const { userId } = uniqueUser();
+        await repository.create(savedSearch(userId, "Birch Ln", 1));
+        await repository.create(savedSearch(userId, "Aspen Ct", 2));
+        await repository.create(savedSearch(userId, "Cedar Rd", 3));
+
+        const pages = await readAllPages(await repository.listPage(pageQuery(userId, { sort: 'title' }), 2));
+        expect(pages.flat().map(s => s.title)).toEqual(["Aspen Ct", "Birch Ln", "Cedar Rd"]);
+      });
+
+      it("limits the scope to owned, shared or both, listing each search once", async () => {
+        const repository = getRepository();
+        const me = uniqueUser();
+        const owner = uniqueUser();
+        await repository.create(savedSearch(me.userId, "Mine", 1));
+        await repository.create(savedSearch(me.userId, "Mine, shared with myself", 2, { sharedWith: [me.email] }));
+        await repository.create(savedSearch(owner.userId, "Theirs", 3, { sharedWith: [me.email] }));
+        await repository.create(savedSearch(owner.userId, "Not shared", 4));
+
+        const list = async (scope: SavedSearchQuery['scope']) =>
+          (await readAllPages(await repository.listPage(pageQuery(me.userId, { scope, email: me.email }), 10))).flat().map(s => s.title);
+        expect(await list('owned')).toEqual(["Mine, shared with myself", "Mine"]);
+        expect(await list('shared')).toEqual(["Theirs", "Mine, shared with myself"]);
+        expect(await list('all')).toEqual(["Theirs", "Mine, shared with myself", "Mine"]);
+      });
+
+      it("filters by text, city, state, dates and videos", async () => {
+        const repository = getRepository();
+        const { userId } = uniqueUser();
+        const at = (title: string, day: number, city: string, state: string, videos = 1) =>
+          repository.create(savedSearch(userId, title, day, {
+            propertyDetails: { street: title, city, state, zip: "00000", mlsNumber: `MLS-${day}` },
+            results: { summary: "", videos: Array.from({ length: videos }, (_, i) => video(`v${day}x${i}00000`)), found: videos > 0 }
+          }));
+        await at("12 Oak St", 1, "Springfield", "IL");
+        await at("40 Oak Ave", 2, "Shelbyville", "IL");
+        await at("7 Elm St", 3, "Springfield", "MO");
+        await at("9 Oak Ct", 4, "Springfield", "IL", 0);
+
+        const list = async (filters: Partial<SavedSearchQuery>) =>
+          (await readAllPages(await repository.listPage(pageQuery(userId, filters), 10))).flat().map(s => s.title);
+        expect(await list({ text: "oak springfield" })).toEqual(["9 Oak Ct", "12 Oak St"]);
+        expect(await list({ city: "spring" })).toEqual(["9 Oak Ct", "7 Elm St", "12 Oak St"]);
+        expect(await list({ state: "mo" })).toEqual(["7 Elm St"]);
+        expect(await list({ from: BASE_TIME + 2 * DAY, to: BASE_TIME + 3 * DAY })).toEqual(["7 Elm St", "40 Oak Ave"]);
+        expect(await list({ hasVideos: true })).toEqual(["7 Elm St", "40 Oak Ave", "12 Oak St"]);
+      });
+
+      it("decides 'has videos' from the videos, not the search's found flag", async () => {
+        const repository = getRepository();
+        const { userId } = uniqueUser();
+        const emptied = await repository.create(savedSearch(userId, "Emptied", 1));
+        const filled = await repository.create(savedSearch(userId, "Filled", 2, { results: { summary: "", videos: [], found: false } }));
+        // Writers that only touch the video list leave `found` as it was
+        await repository.update(emptied.id!, { results: { ...emptied.results, videos: [], found: true } });
+        await repository.update(filled.id!, { results: { ...filled.results, videos: [video("filled00001")], found: false } });
+
+        const pages = await readAllPages(await repository.listPage(pageQuery(userId, { hasVideos: true }), 10));
+        expect(titles(pages.flat())).toEqual(["Filled"]);
+      });
+    });
+  });
+
+describe("in-memory localStorage", () => {
+  describeSearchRepositoryContract("Local", () => createLocalSearchRepository(new MemoryStorage()));
+});
+
+describe("fake-indexeddb", () => {
+  // The IndexedDB store moves searches out of localStorage on first use
+  beforeAll(() => { vi.stubGlobal('localStorage', new MemoryStorage()); });
+  afterAll(() => { vi.unstubAllGlobals(); });
+
+  describeSearchRepositoryContract("IndexedDB", () => createIndexedDbSearchRepository());
+});
+
+// Needs `firebase emulators:start --only firestore` (port 8080 in firebase.json) and
+// FIRESTORE_EMULATOR_HOST=127.0.0.1:8080; skipped without it
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+
+describe("Firestore emulator", () => {
+  let repository: SearchRepository;
+  const app = emulatorHost ? initializeApp({ projectId: process.env.GCLOUD_PROJECT || "demo-image2vids" }, "search-repository-contract") : null;
+
+  beforeAll(() => {
+    if (!app || !emulatorHost) return;
+    const firestore = getFirestore(app);
+    const [host, port] = emulatorHost.split(":");
+    // "owner" is the emulator's admin token, so security rules don't apply to the contract
+    connectFirestoreEmulator(firestore, host, Number(port), { mockUserToken: "owner" });
+    repository = createFirestoreSearchRepository(firestore, null);
+  });
+  afterAll(async () => {
+    if (!app) return;
+    await terminate(getFirestore(app));
+    await deleteApp(app);
+  });
+
+  describeSearchRepositoryContract("Firestore", () => repository, !emulatorHost);
+});
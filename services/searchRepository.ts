@@ -0,0 +1,539 @@
+import {
+  collection,
+  addDoc,
+  setDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  getDoc,
+  getDocs,
+  updateDoc,
+  deleteDoc,
+  doc,
+  runTransaction,
+  Firestore,
+  DocumentSnapshot,
+  QueryConstraint,
+  QueryDocumentSnapshot
+} from "firebase/firestore";
+import { SavedSearch, SavedSearchQuery, SavedSearchSort, SearchResponse } from "../types";
+import { db, storage } from "./firebase";
+import { SearchImageStore, createSearchImageStore } from "./imageStorage";
+import { STORES, idbGet, idbGetAll, idbTransaction, isIndexedDbAvailable } from "./indexedDb";
+import { fromImageBlob, toImageBlob } from "./savedImages";
+
+const SEARCHES = 'searches';
+const LOCAL_SEARCHES_KEY = 're_app_searches';
+
+// Builds the merged results from the target and the searches folded into it, as they
+// stand at write time (not as the caller last saw them)
+export type MergeResults = (target: SavedSearch, sources: SavedSearch[]) => SearchResponse;
+
+export type SearchImages = Pick<SavedSearch, 'frontImage' | 'backImage'>;
+
+export interface SearchPage {
+  items: SavedSearch[];
+  // Fetches the page after this one; null on the last page
+  next: (() => Promise<SearchPage>) | null;
+  // Set when searches shared with the user couldn't be listed; the pages then hold only their own
+  sharedError?: unknown;
+}
+
+// Saved searches, wherever they live. Every method resolves once the write is durable.
+// Searches come back without their full photos (at most references and thumbnails);
+// loadImages fetches them when a search is opened.
+export interface SearchRepository {
+  create: (search: SavedSearch) => Promise<SavedSearch>;
+  get: (id: string) => Promise<SavedSearch | null>;
+  findByTitle: (userId: string, title: string) => Promise<SavedSearch | null>;
+  // Newest first
+  listOwned: (userId: string) => Promise<SavedSearch[]>;
+  listShared: (email: string) => Promise<SavedSearch[]>;
+  listWatched: (userId: string) => Promise<SavedSearch[]>;
+  listPage: (query: SavedSearchQuery, pageSize: number) => Promise<SearchPage>;
+  update: (id: string, changes: Partial<SavedSearch>) => Promise<void>;
+  delete: (id: string) => Promise<void>;
+  // Rewrites the target's results and deletes the sources in one atomic step, so a
+  // failure never leaves duplicates behind or loses videos. Missing sources are skipped.
+  merge: (targetId: string, sourceIds: string[], combine: MergeResults) => Promise<SavedSearch>;
+  loadImages: (search: SavedSearch) => Promise<SearchImages>;
+}
+
+// Storage on this device. Guests have no account to list by, so it can list everything.
+export interface DeviceSearchRepository extends SearchRepository {
+  listAll: () => Promise<SavedSearch[]>;
+}
+
+// Firestore rejects undefined fields, so round-trip through JSON to drop them
+const stripUndefined = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+const withoutId = ({ id, ...rest }: Partial<SavedSearch>) => rest;
+
+// Firestore's title ordering skips documents without the field, so every store saves one
+const withTitle = (search: SavedSearch): SavedSearch => ({ ...search, title: search.title ?? search.propertyDetails.street });
+
+const newestFirst = (a: SavedSearch, b: SavedSearch) => b.timestamp - a.timestamp;
+
+// Firestore's own order for each sort (plain code-unit comparison for titles, not locale
+// order), so pages merged from several queries come out the way each query returned them
+const SORT_COMPARATORS: Record<SavedSearchSort, (a: SavedSearch, b: SavedSearch) => number> = {
+  newest: newestFirst,
+  oldest: (a, b) => a.timestamp - b.timestamp,
+  title: (a, b) => (a.title || '') < (b.title || '') ? -1 : (a.title || '') > (b.title || '') ? 1 : 0
+};
+
+const includesText = (value: string | undefined, text: string) =>
+  (value || '').toLowerCase().includes(text.trim().toLowerCase());
+
+// Every filter, checked in memory. Stores run what they can as queries and this covers the rest.
+const matchesQuery = (search: SavedSearch, q: SavedSearchQuery): boolean => {
+  const details = search.propertyDetails;
+  if (q.text?.trim()) {
+    const haystack = [search.title, details.street, details.city, details.mlsNumber].join(' ').toLowerCase();
+    if (!q.text.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word))) return false;
+  }
+  if (q.city?.trim() && !includesText(details.city, q.city)) return false;
+  if (q.state?.trim() && details.state.trim().toLowerCase() !== q.state.trim().toLowerCase()) return false;
+  if (q.from !== undefined && search.timestamp < q.from) return false;
+  if (q.to !== undefined && search.timestamp > q.to) return false;
+  if (q.hasVideos && (search.results.videos || []).length === 0) return false;
+  return true;
+};
+
+// A sorted source of searches, read one at a time
+interface SearchStream {
+  peek: () => Promise<SavedSearch | null>;
+  skip: () => void;
+  error?: unknown;
+}
+
+// Reading stops here even if the page isn't full, so a rare filter can't pull in a whole collection
+const MAX_SCANNED_PER_PAGE = 200;
+
+// Merges sorted streams (owned and shared) into pages of matching searches
+const pageStreams = (streams: SearchStream[], q: SavedSearchQuery, pageSize: number, shared?: SearchStream): Promise<SearchPage> => {
+  const compare = SORT_COMPARATORS[q.sort];
+  const seen = new Set<string>(); // A user's own search can also be shared with them
+
+  const heads = () => Promise.all(streams.map(stream => stream.peek()));
+
+  const nextPage = async (): Promise<SearchPage> => {
+    const items: SavedSearch[] = [];
+    for (let scanned = 0; items.length < pageSize && scanned < MAX_SCANNED_PER_PAGE; scanned++) {
+      const current = await heads();
+      let best = -1;
+      current.forEach((head, idx) => {
+        if (head && (best === -1 || compare(head, current[best]!) < 0)) best = idx;
+      });
+      if (best === -1) break;
+      const search = current[best]!;
+      streams[best].skip();
+      if (seen.has(search.id!)) continue;
+      seen.add(search.id!);
+      if (matchesQuery(search, q)) items.push(search);
+    }
+    const hasMore = (await heads()).some(Boolean);
+    return { items, next: hasMore ? nextPage : null, sharedError: shared?.error };
+  };
+  return nextPage();
+};
+
+const arrayStream = (searches: SavedSearch[]): SearchStream => {
+  let index = 0;
+  return {
+    peek: async () => searches[index] || null,
+    skip: () => { index++; }
+  };
+};
+
+// Device stores filter in memory, over everything they hold
+const pageInMemory = (searches: SavedSearch[], q: SavedSearchQuery, pageSize: number): Promise<SearchPage> => {
+  const email = q.email?.toLowerCase();
+  const inScope = searches.filter(s =>
+    (q.scope !== 'shared' && s.userId === q.userId) ||
+    (q.scope !== 'owned' && !!email && !!s.sharedWith?.includes(email))
+  );
+  return pageStreams([arrayStream(inScope.sort(SORT_COMPARATORS[q.sort]))], q, pageSize);
+};
+
+const newLocalId = () => `local-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// `images` is null when no Storage bucket is configured; photos then stay in the document
+export const createFirestoreSearchRepository = (firestore: Firestore, images: SearchImageStore | null): SearchRepository => {
+  const searchRef = (id: string) => doc(firestore, SEARCHES, id);
+  // Best effort: an orphaned photo costs storage, not correctness
+  const removeImages = (search: SavedSearch) => Promise.all(
+    [search.frontImageRef, search.backImageRef].map(imageRef => imageRef && images?.remove(imageRef).catch(e => {
+      console.warn(`Could not delete saved search photo ${imageRef.path}:`, e);
+    }))
+  );
+  const fromSnapshot = (snapshot: DocumentSnapshot) => ({ id: snapshot.id, ...snapshot.data() } as SavedSearch);
+  const list = async (...constraints: Parameters<typeof where>[]) => {
+    const snapshot = await getDocs(query(collection(firestore, SEARCHES), ...constraints.map(c => where(...c))));
+    return snapshot.docs.map(fromSnapshot).sort(newestFirst);
+  };
+
+  return {
+    create: async (search) => {
+      if (!images) {
+        const data = stripUndefined(withoutId(withTitle(search))) as SavedSearch;
+        const ref = await addDoc(collection(firestore, SEARCHES), data);
+        return { ...data, id: ref.id };
+      }
+
+      // The ID comes first so the photos can be uploaded under it before the document exists
+      const ref = doc(collection(firestore, SEARCHES));
+      const { frontImage, backImage, ...rest } = withoutId(withTitle(search)) as SavedSearch;
+      const [frontImageRef, backImageRef] = await Promise.all([
+        frontImage && images.upload(search.userId, ref.id, 'front', frontImage),
+        backImage && images.upload(search.userId, ref.id, 'back', backImage)
+      ]);
+      const created = stripUndefined({ ...rest, frontImageRef, backImageRef, id: ref.id }) as SavedSearch;
+      try {
+        await setDoc(ref, withoutId(created));
+      } catch (e) {
+        await removeImages(created);
+        throw e;
+      }
+      return created;
+    },
+
+    get: async (id) => {
+      const snapshot = await getDoc(searchRef(id));
+      return snapshot.exists() ? fromSnapshot(snapshot) : null;
+    },
+
+    findByTitle: async (userId, title) => {
+      const snapshot = await getDocs(query(
+        collection(firestore, SEARCHES),
+        where('userId', '==', userId),
+        where('title', '==', title),
+        limit(1)
+      ));
+      return snapshot.empty ? null : fromSnapshot(snapshot.docs[0]);
+    },
+
+    listOwned: (userId) => list(['userId', '==', userId]),
+
+    listShared: (email) => list(['sharedWith', 'array-contains', email.toLowerCase()]),
+
+    listWatched: (userId) => list(['userId', '==', userId], ['watched', '==', true]),
+
+    // Owned and shared searches are separate queries (each one a composite index in
+    // firestore.indexes.json), read a page at a time with startAfter and merged in order.
+    // Text, city, state and "has videos" have no query form and are filtered as pages are
+    // read; `results.found` isn't kept in step with the video list, so it can't stand in.
+    listPage: async (q, pageSize) => {
+      const constraints: QueryConstraint[] = [];
+      if (q.sort === 'title') {
+        constraints.push(orderBy('title'));
+      } else {
+        // Date ranges only go to Firestore alongside the timestamp ordering they need
+        if (q.from !== undefined) constraints.push(where('timestamp', '>=', q.from));
+        if (q.to !== undefined) constraints.push(where('timestamp', '<=', q.to));
+        constraints.push(orderBy('timestamp', q.sort === 'oldest' ? 'asc' : 'desc'));
+      }
+
+      const queryStream = (scope: QueryConstraint, optional: boolean): SearchStream => {
+        let buffer: QueryDocumentSnapshot[] = [];
+        let last: QueryDocumentSnapshot | null = null;
+        let done = false;
+        const stream: SearchStream = {
+          peek: async () => {
+            if (buffer.length === 0 && !done) {
+              try {
+                const snapshot = await getDocs(query(
+                  collection(firestore, SEARCHES),
+                  scope,
+                  ...constraints,
+                  ...(last ? [startAfter(last)] : []),
+                  limit(pageSize)
+                ));
+                buffer = snapshot.docs;
+                last = buffer[buffer.length - 1] || last;
+                done = buffer.length < pageSize;
+              } catch (e) {
+                if (!optional) throw e;
+                console.error("Shared search query failed:", e);
+                stream.error = e;
+                done = true;
+              }
+            }
+            return buffer.length > 0 ? fromSnapshot(buffer[0]) : null;
+          },
+          skip: () => { buffer.shift(); }
+        };
+        return stream;
+      };
+
+      const streams: SearchStream[] = [];
+      let shared: SearchStream | undefined;
+      if (q.scope !== 'shared') streams.push(queryStream(where('userId', '==', q.userId), false));
+      if (q.scope !== 'owned' && q.email) {
+        shared = queryStream(where('sharedWith', 'array-contains', q.email.toLowerCase()), true);
+        streams.push(shared);
+      }
+      return pageStreams(streams, q, pageSize, shared);
+    },
+
+    update: (id, changes) => updateDoc(searchRef(id), stripUndefined(withoutId(changes))),
+
+    delete: async (id) => {
+      const snapshot = await getDoc(searchRef(id));
+      await deleteDoc(searchRef(id));
+      if (snapshot.exists()) await removeImages(fromSnapshot(snapshot));
+    },
+
+    // All reads happen before any write, as Firestore transactions require; a
+    // concurrent change to any of the documents makes Firestore retry the whole merge.
+    // Photos of the merged-away searches are deleted once the transaction has committed.
+    merge: async (targetId, sourceIds, combine) => {
+      let removed: SavedSearch[] = [];
+      const merged = await runTransaction(firestore, async (transaction) => {
+        const targetSnapshot = await transaction.get(searchRef(targetId));
+        if (!targetSnapshot.exists()) throw new Error("The search to merge into no longer exists.");
+        const sourceSnapshots = await Promise.all(sourceIds.map(id => transaction.get(searchRef(id))));
+
+        const target = fromSnapshot(targetSnapshot);
+        const sources = sourceSnapshots.filter(snapshot => snapshot.exists()).map(fromSnapshot);
+        const merged: SavedSearch = { ...target, results: combine(target, sources), timestamp: Date.now() };
+
+        transaction.update(searchRef(targetId), stripUndefined({ results: merged.results, timestamp: merged.timestamp }));
+        sources.forEach(source => transaction.delete(searchRef(source.id!)));
+        removed = sources;
+        return merged;
+      });
+      await Promise.all(removed.map(removeImages));
+      return merged;
+    },
+
+    loadImages: async (search) => {
+      const [frontImage, backImage] = await Promise.all([
+        search.frontImageRef && images ? images.download(search.frontImageRef) : search.frontImage,
+        search.backImageRef && images ? images.download(search.backImageRef) : search.backImage
+      ]);
+      return { frontImage, backImage };
+    }
+  };
+};
+
+// Fallback for browsers without IndexedDB. Each call is one read-modify-write of the whole
+// list, which is what makes merges atomic here. `storage` defaults to the browser's localStorage.
+export const createLocalSearchRepository = (storage?: Storage): DeviceSearchRepository => {
+  const read = (): SavedSearch[] => {
+    const existing = (storage || localStorage).getItem(LOCAL_SEARCHES_KEY);
+    return existing ? JSON.parse(existing) : [];
+  };
+  const write = (searches: SavedSearch[]) => (storage || localStorage).setItem(LOCAL_SEARCHES_KEY, JSON.stringify(searches));
+
+  return {
+    create: async (search) => {
+      const created = { ...withTitle(search), id: newLocalId() };
+      write([...read(), created]);
+      return created;
+    },
+
+    get: async (id) => read().find(s => s.id === id) || null,
+
+    findByTitle: async (userId, title) => read().find(s => s.userId === userId && s.title === title) || null,
+
+    listOwned: async (userId) => read().filter(s => s.userId === userId).sort(newestFirst),
+
+    listAll: async () => read().sort(newestFirst),
+
+    listShared: async (email) => {
+      const normalized = email.toLowerCase();
+      return read().filter(s => s.sharedWith?.includes(normalized)).sort(newestFirst);
+    },
+
+    listWatched: async (userId) => read().filter(s => s.userId === userId && s.watched).sort(newestFirst),
+
+    listPage: (q, pageSize) => pageInMemory(read(), q, pageSize),
+
+    update: async (id, changes) => {
+      const searches = read();
+      const idx = searches.findIndex(s => s.id === id);
+      if (idx === -1) throw new Error("Saved search not found.");
+      searches[idx] = { ...searches[idx], ...withoutId(changes) };
+      write(searches);
+    },
+
+    delete: async (id) => write(read().filter(s => s.id !== id)),
+
+    merge: async (targetId, sourceIds, combine) => {
+      const searches = read();
+      const target = searches.find(s => s.id === targetId);
+      if (!target) throw new Error("The search to merge into no longer exists.");
+      const sourceSet = new Set(sourceIds.filter(id => id !== targetId));
+      const sources = sourceIds.map(id => searches.find(s => s.id === id)).filter((s): s is SavedSearch => !!s && s.id !== targetId);
+
+      const merged: SavedSearch = { ...target, results: combine(target, sources), timestamp: Date.now() };
+      write(searches.filter(s => !sourceSet.has(s.id!)).map(s => s.id === targetId ? merged : s));
+      return merged;
+    },
+
+    loadImages: async (search) => ({ frontImage: search.frontImage, backImage: search.backImage })
+  };
+};
+
+type ImageSlot = 'frontImage' | 'backImage';
+const IMAGE_SLOTS: ImageSlot[] = ['frontImage', 'backImage'];
+
+interface StoredSearchImage {
+  key: string; // "<searchId>/<slot>"
+  blob: Blob;
+  name?: string;
+}
+
+const imageKey = (searchId: string, slot: ImageSlot) => `${searchId}/${slot}`;
+
+const putSearch = (transaction: IDBTransaction, search: SavedSearch) => {
+  const { frontImage, backImage, ...record } = search;
+  transaction.objectStore(STORES.searches).put(record);
+  IMAGE_SLOTS.forEach(slot => {
+    const image = search[slot];
+    if (!image) return;
+    const stored: StoredSearchImage = { key: imageKey(search.id!, slot), blob: toImageBlob(image), name: image.name };
+    transaction.objectStore(STORES.searchImages).put(stored);
+  });
+};
+
+const deleteSearch = (transaction: IDBTransaction, id: string) => {
+  transaction.objectStore(STORES.searches).delete(id);
+  IMAGE_SLOTS.forEach(slot => transaction.objectStore(STORES.searchImages).delete(imageKey(id, slot)));
+};
+
+const readImages = async (searchId: string): Promise<SearchImages> => {
+  const [frontImage, backImage] = await Promise.all(IMAGE_SLOTS.map(async slot => {
+    const stored = await idbGet<StoredSearchImage>(STORES.searchImages, imageKey(searchId, slot));
+    return stored ? fromImageBlob(stored.blob, stored.name) : undefined;
+  }));
+  return { frontImage, backImage };
+};
+
+// Earlier versions kept guest searches as one JSON string in localStorage. The key is only
+// removed once every search is in IndexedDB, so an interrupted move is retried next time.
+const migrateLocalSearches = async () => {
+  const existing = localStorage.getItem(LOCAL_SEARCHES_KEY);
+  if (!existing) return;
+  const searches: SavedSearch[] = JSON.parse(existing);
+  await idbTransaction([STORES.searches, STORES.searchImages], transaction =>
+    searches.forEach(search => putSearch(transaction, { ...search, id: search.id || newLocalId() }))
+  );
+  localStorage.removeItem(LOCAL_SEARCHES_KEY);
+};
+
+// Guest storage. Photos are kept as Blobs in their own store, so lists, merges and updates
+// never copy them; loadImages turns them back into base64.
+export const createIndexedDbSearchRepository = (): DeviceSearchRepository => {
+  let migration: Promise<void> | null = null;
+  const ready = () => {
+    if (!migration) {
+      migration = migrateLocalSearches().catch(e => {
+        console.warn("Moving saved searches out of localStorage failed:", e);
+        migration = null;
+      });
+    }
+    return migration;
+  };
+  const stores = [STORES.searches, STORES.searchImages];
+
+  const listWhere = async (keep: (search: SavedSearch) => boolean, userId?: string) => {
+    await ready();
+    const searches = userId
+      ? await idbGetAll<SavedSearch>(STORES.searches, 'userId', userId)
+      : await idbGetAll<SavedSearch>(STORES.searches);
+    return searches.filter(keep).sort(newestFirst);
+  };
+
+  return {
+    create: async (search) => {
+      await ready();
+      const created = { ...withTitle(search), id: newLocalId() };
+      await idbTransaction(stores, transaction => putSearch(transaction, created));
+      return created;
+    },
+
+    get: async (id) => {
+      await ready();
+      return (await idbGet<SavedSearch>(STORES.searches, id)) || null;
+    },
+
+    findByTitle: async (userId, title) => (await listWhere(s => s.title === title, userId))[0] || null,
+
+    listOwned: (userId) => listWhere(() => true, userId),
+
+    listAll: () => listWhere(() => true),
+
+    listShared: (email) => {
+      const normalized = email.toLowerCase();
+      return listWhere(s => !!s.sharedWith?.includes(normalized));
+    },
+
+    listWatched: (userId) => listWhere(s => !!s.watched, userId),
+
+    listPage: async (q, pageSize) => pageInMemory(await listWhere(() => true), q, pageSize),
+
+    update: async (id, changes) => {
+      await ready();
+      let found = false;
+      await idbTransaction(stores, transaction => {
+        const request = transaction.objectStore(STORES.searches).get(id);
+        request.onsuccess = () => {
+          if (!request.result) return;
+          found = true;
+          putSearch(transaction, { ...request.result, ...withoutId(changes), id });
+        };
+      });
+      if (!found) throw new Error("Saved search not found.");
+    },
+
+    delete: async (id) => {
+      await ready();
+      await idbTransaction(stores, transaction => deleteSearch(transaction, id));
+    },
+
+    // Reads and writes share one transaction; combine() runs inside it, before any write
+    merge: async (targetId, sourceIds, combine) => {
+      await ready();
+      let merged = null as SavedSearch | null;
+      await idbTransaction(stores, transaction => {
+        const store = transaction.objectStore(STORES.searches);
+        const ids = [targetId, ...sourceIds.filter(id => id !== targetId)];
+        const found: (SavedSearch | undefined)[] = [];
+        let pending = ids.length;
+        ids.forEach((id, idx) => {
+          const request = store.get(id);
+          request.onsuccess = () => {
+            found[idx] = request.result;
+            if (--pending > 0) return;
+            const [target, ...rest] = found;
+            if (!target) return;
+            const sources = rest.filter((s): s is SavedSearch => !!s);
+            merged = { ...target, results: combine(target, sources), timestamp: Date.now() };
+            store.put(merged);
+            sources.forEach(source => deleteSearch(transaction, source.id!));
+          };
+        });
+      });
+      if (!merged) throw new Error("The search to merge into no longer exists.");
+      return merged;
+    },
+
+    loadImages: async (search) => {
+      await ready();
+      return readImages(search.id!);
+    }
+  };
+};
+
+// IndexedDB, or localStorage where IndexedDB is missing
+export const createDeviceSearchRepository = (): DeviceSearchRepository =>
+  isIndexedDbAvailable() ? createIndexedDbSearchRepository() : createLocalSearchRepository();
+
+// Firestore when configured, device storage otherwise
+export const searchRepository: SearchRepository = db
+  ? createFirestoreSearchRepository(db, storage ? createSearchImageStore(storage) : null)
+  : createDeviceSearchRepository();
@@ -0,0 +1,130 @@
+import { Type, Schema } from "@google/genai";
+import { VideoContentType, VisualMatchVerdict } from "../types";
+
+export interface StructuredVideo {
+  title: string;
+  url: string;
+  platform: string;
+  contentType: VideoContentType;
+  reason: string;
+}
+
+export interface StructuredSearchResponse {
+  summary: string;
+  videos: StructuredVideo[];
+}
+
+const CONTENT_TYPES: VideoContentType[] = ['walkthrough', 'drone', '3d-tour', 'listing', 'other'];
+
+// Response schema sent to Gemini so it answers with typed JSON instead of free text
+export const VIDEO_SEARCH_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: {
+      type: Type.STRING,
+      description: "Concise summary of the video content found, or 'No video tours found'."
+    },
+    videos: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          title: { type: Type.STRING, description: "The actual title of the video or page." },
+          url: { type: Type.STRING, description: "Direct URL to the video, tour or post." },
+          platform: { type: Type.STRING, description: "Hosting platform, e.g. YouTube, Vimeo, Matterport, Facebook." },
+          contentType: { type: Type.STRING, enum: CONTENT_TYPES, description: "Kind of video content." },
+          reason: { type: Type.STRING, description: "Why this video belongs to the target property." }
+        },
+        required: ["title", "url", "platform", "contentType", "reason"]
+      }
+    }
+  },
+  required: ["summary", "videos"]
+};
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+// Models sometimes wrap JSON in markdown fences even when asked not to
+const stripCodeFences = (text: string): string =>
+  text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+
+// Runtime validation of the model output. Returns null if the payload does not
+// match the schema so the caller can fall back to link extraction.
+export const parseStructuredSearchResponse = (text: string | undefined): StructuredSearchResponse | null => {
+  if (!text) return null;
+
+  let data: any;
+  try {
+    data = JSON.parse(stripCodeFences(text));
+  } catch (e) {
+    return null;
+  }
+
+  if (!data || typeof data !== 'object' || typeof data.summary !== 'string' || !Array.isArray(data.videos)) {
+    return null;
+  }
+
+  const videos: StructuredVideo[] = [];
+  for (const item of data.videos) {
+    // A single malformed entry is dropped rather than failing the whole response
+    if (!item || !isNonEmptyString(item.url) || !isNonEmptyString(item.title)) continue;
+    videos.push({
+      title: item.title.trim(),
+      url: item.url.trim(),
+      platform: isNonEmptyString(item.platform) ? item.platform.trim() : "",
+      contentType: CONTENT_TYPES.includes(item.contentType) ? item.contentType : 'other',
+      reason: isNonEmptyString(item.reason) ? item.reason.trim() : ""
+    });
+  }
+
+  return { summary: data.summary, videos };
+};
+
+export interface VisualMatchEntry {
+  index: number;
+  verdict: VisualMatchVerdict;
+  rationale: string;
+}
+
+const VISUAL_VERDICTS: VisualMatchVerdict[] = ['match', 'mismatch', 'unknown'];
+
+// Schema for comparing numbered video thumbnails with the uploaded property photos
+export const VISUAL_MATCH_RESPONSE_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    results: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          index: { type: Type.INTEGER, description: "Number of the thumbnail being judged." },
+          verdict: { type: Type.STRING, enum: VISUAL_VERDICTS, description: "Whether the thumbnail shows the same property." },
+          rationale: { type: Type.STRING, description: "One sentence naming the features that match or differ." }
+        },
+        required: ["index", "verdict", "rationale"]
+      }
+    }
+  },
+  required: ["results"]
+};
+
+export const parseVisualMatchResponse = (text: string | undefined): VisualMatchEntry[] | null => {
+  if (!text) return null;
+
+  let data: any;
+  try {
+    data = JSON.parse(stripCodeFences(text));
+  } catch (e) {
+    return null;
+  }
+  if (!data || !Array.isArray(data.results)) return null;
+
+  return data.results
+    .filter((item: any) => item && Number.isInteger(item.index))
+    .map((item: any) => ({
+      index: item.index,
+      verdict: VISUAL_VERDICTS.includes(item.verdict) ? item.verdict : 'unknown',
+      rationale: isNonEmptyString(item.rationale) ? item.rationale.trim() : ""
+    }));
+};
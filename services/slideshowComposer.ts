@@ -0,0 +1,196 @@
+import { ImageFile, PropertyDetails, SearchResponse, SlideshowOptions, VideoSearchResult } from "../types";
+import { throwIfAborted } from "./abort";
+import { isCanvasRecordingSupported, recordCanvas, wrapText } from "./canvasVideo";
+
+const CROSSFADE_SECONDS = 1;
+const TITLE_CARD_SECONDS = 3;
+const AUDIO_FADE_SECONDS = 1.5;
+
+const DIMENSIONS: Record<SlideshowOptions['aspectRatio'], { width: number; height: number }> = {
+  '16:9': { width: 1280, height: 720 },
+  '9:16': { width: 720, height: 1280 }
+};
+
+export const isSlideshowSupported = isCanvasRecordingSupported;
+
+const loadImage = async (src: string): Promise<HTMLImageElement> => {
+  const img = new Image();
+  img.src = src;
+  await img.decode();
+  return img;
+};
+
+type Slide = { kind: 'title' } | { kind: 'photo'; image: HTMLImageElement; variant: number };
+
+const easeInOut = (t: number) => t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
+
+// Ken Burns: slow zoom with a pan whose direction alternates between photos.
+// `progress` runs 0..1 over the slide's time on screen.
+const drawPhoto = (ctx: CanvasRenderingContext2D, image: HTMLImageElement, progress: number, variant: number) => {
+  const { width, height } = ctx.canvas;
+  const zoomIn = variant % 2 === 0;
+  const eased = easeInOut(progress);
+  const scale = zoomIn ? 1 + 0.15 * eased : 1.15 - 0.15 * eased;
+
+  // Cover-fit, then scale for the zoom
+  const cover = Math.max(width / image.width, height / image.height) * scale;
+  const drawWidth = image.width * cover;
+  const drawHeight = image.height * cover;
+  const slackX = drawWidth - width;
+  const slackY = drawHeight - height;
+  const panX = [0.2, 0.8, 0.5, 0.3][variant % 4];
+  const panY = [0.5, 0.4, 0.2, 0.7][variant % 4];
+  const x = -slackX * (panX + (0.5 - panX) * eased);
+  const y = -slackY * (panY + (0.5 - panY) * eased);
+
+  ctx.drawImage(image, x, y, drawWidth, drawHeight);
+};
+
+const drawTitleCard = (ctx: CanvasRenderingContext2D, details: PropertyDetails) => {
+  const { width, height } = ctx.canvas;
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, "#312e81");
+  gradient.addColorStop(1, "#4f46e5");
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  const base = Math.min(width, height);
+  ctx.fillStyle = "#ffffff";
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+
+  ctx.font = `bold ${Math.round(base * 0.08)}px system-ui, sans-serif`;
+  const streetLines = wrapText(ctx, details.street, width * 0.85);
+  const lineHeight = base * 0.1;
+  let y = height / 2 - (streetLines.length * lineHeight) / 2;
+  streetLines.forEach(line => {
+    ctx.fillText(line, width / 2, y);
+    y += lineHeight;
+  });
+
+  ctx.font = `${Math.round(base * 0.045)}px system-ui, sans-serif`;
+  ctx.fillStyle = "rgba(255,255,255,0.85)";
+  ctx.fillText(`${details.city}, ${details.state} ${details.zip}`, width / 2, y + base * 0.02);
+  if (details.mlsNumber) {
+    ctx.font = `${Math.round(base * 0.032)}px system-ui, sans-serif`;
+    ctx.fillStyle = "rgba(255,255,255,0.6)";
+    ctx.fillText(`MLS# ${details.mlsNumber.replace(/^MLS#\s*/i, "")}`, width / 2, y + base * 0.09);
+  }
+};
+
+// Optional soundtrack: decoded locally and routed into the recording, faded out at the end
+const createAudioTrack = async (file: File, durationSeconds: number) => {
+  const audioContext = new AudioContext();
+  const buffer = await audioContext.decodeAudioData(await file.arrayBuffer());
+  const source = audioContext.createBufferSource();
+  source.buffer = buffer;
+  source.loop = buffer.duration < durationSeconds;
+
+  const gain = audioContext.createGain();
+  const destination = audioContext.createMediaStreamDestination();
+  source.connect(gain).connect(destination);
+
+  return {
+    track: destination.stream.getAudioTracks()[0],
+    start: () => {
+      const now = audioContext.currentTime;
+      gain.gain.setValueAtTime(1, now + Math.max(0, durationSeconds - AUDIO_FADE_SECONDS));
+      gain.gain.linearRampToValueAtTime(0, now + durationSeconds);
+      source.start();
+    },
+    close: () => {
+      try { source.stop(); } catch (e) {}
+      audioContext.close();
+    }
+  };
+};
+
+// Render the photos into a video entirely in the browser: no network, no API key.
+// Recording happens in real time, so composing takes as long as the video itself.
+export const composeSlideshow = async (
+  images: ImageFile[],
+  details: PropertyDetails,
+  options: SlideshowOptions,
+  callbacks: { signal?: AbortSignal; onProgress?: (fraction: number) => void } = {}
+): Promise<{ blob: Blob; mimeType: string; durationSeconds: number }> => {
+  const { signal, onProgress } = callbacks;
+  if (!isSlideshowSupported()) {
+    throw new Error("This browser can't record video. Try a recent version of Chrome, Edge, Firefox or Safari.");
+  }
+  if (images.length === 0) {
+    throw new Error("Add at least one photo to build a slideshow.");
+  }
+
+  const loaded = await Promise.all(images.map(image => loadImage(image.preview)));
+  throwIfAborted(signal);
+
+  const slides: Slide[] = [
+    ...(options.includeTitleCard ? [{ kind: 'title' } as Slide] : []),
+    ...loaded.map((image, idx) => ({ kind: 'photo', image, variant: idx } as Slide))
+  ];
+  const slideSeconds = (slide: Slide) => slide.kind === 'title' ? TITLE_CARD_SECONDS : options.secondsPerPhoto;
+  // Each slide overlaps the previous one by the crossfade
+  const starts: number[] = [];
+  slides.reduce((start, slide) => {
+    starts.push(start);
+    return start + slideSeconds(slide) - CROSSFADE_SECONDS;
+  }, 0);
+  const durationSeconds = starts[starts.length - 1] + slideSeconds(slides[slides.length - 1]);
+
+  const canvas = document.createElement("canvas");
+  const { width, height } = DIMENSIONS[options.aspectRatio];
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d")!;
+
+  const drawFrame = (t: number) => {
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = "#000000";
+    ctx.fillRect(0, 0, width, height);
+    slides.forEach((slide, idx) => {
+      const local = t - starts[idx];
+      const length = slideSeconds(slide);
+      if (local < 0 || local > length) return;
+      ctx.globalAlpha = idx === 0 ? 1 : Math.min(1, local / CROSSFADE_SECONDS);
+      if (slide.kind === 'title') drawTitleCard(ctx, details);
+      else drawPhoto(ctx, slide.image, local / length, slide.variant);
+    });
+    ctx.globalAlpha = 1;
+  };
+
+  const audio = options.audio ? await createAudioTrack(options.audio, durationSeconds) : null;
+  try {
+    const { blob, mimeType } = await recordCanvas(canvas, {
+      durationSeconds,
+      drawFrame,
+      audioTrack: audio?.track,
+      onStart: audio?.start,
+      signal,
+      onProgress
+    });
+    return { blob, mimeType, durationSeconds };
+  } finally {
+    audio?.close();
+  }
+};
+
+// Wrap a composed video so it can sit in the results list next to found videos. Its blob:
+// URL only lives as long as the page, so it must be revoked once the result is dropped.
+export const toSlideshowResult = (
+  blob: Blob,
+  details: PropertyDetails,
+  options: SlideshowOptions
+): VideoSearchResult => ({
+  title: `Photo Slideshow - ${details.street} (${options.aspectRatio})`,
+  uri: URL.createObjectURL(blob),
+  source: "Composed in browser",
+  isGenerated: true
+});
+
+export const isLocalVideo = (video: VideoSearchResult): boolean => video.uri.startsWith('blob:');
+
+// What may be saved or shared: local slideshows would be dead links anywhere else
+export const withoutLocalVideos = (results: SearchResponse): SearchResponse => {
+  const videos = results.videos.filter(video => !isLocalVideo(video));
+  return { ...results, videos, found: results.found && videos.length > 0 };
+};
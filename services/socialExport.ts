@@ -0,0 +1,304 @@
+import { ExportAspectRatio, PropertyDetails, SocialExportOptions, SocialPlatform, VideoSearchResult } from "../types";
+import { isAbortError, throwIfAborted } from "./abort";
+import { fileExtensionFor, isCanvasRecordingSupported, recordCanvas, wrapText } from "./canvasVideo";
+
+export interface PlatformSpec {
+  label: string;
+  aspectRatio: ExportAspectRatio;
+  width: number;
+  height: number;
+  maxSeconds: number;
+  // Fractions of the frame covered by the platform's own buttons and text; captions stay inside
+  safeArea: { top: number; right: number; bottom: number; left: number };
+  acceptsWebm: boolean;
+  note?: string;
+}
+
+// Upload limits change every year or so; keep them all in this one table
+export const PLATFORM_SPECS: Record<SocialPlatform, PlatformSpec> = {
+  reels: {
+    label: 'Instagram Reels',
+    aspectRatio: '9:16',
+    width: 1080,
+    height: 1920,
+    maxSeconds: 180,
+    safeArea: { top: 0.14, right: 0.06, bottom: 0.35, left: 0.06 },
+    acceptsWebm: false
+  },
+  tiktok: {
+    label: 'TikTok',
+    aspectRatio: '9:16',
+    width: 1080,
+    height: 1920,
+    maxSeconds: 600,
+    safeArea: { top: 0.08, right: 0.12, bottom: 0.2, left: 0.06 },
+    acceptsWebm: false
+  },
+  shorts: {
+    label: 'YouTube Shorts',
+    aspectRatio: '9:16',
+    width: 1080,
+    height: 1920,
+    maxSeconds: 180,
+    safeArea: { top: 0.08, right: 0.12, bottom: 0.2, left: 0.06 },
+    acceptsWebm: true
+  },
+  feed: {
+    label: 'Square Feed Post',
+    aspectRatio: '1:1',
+    width: 1080,
+    height: 1080,
+    maxSeconds: 60,
+    safeArea: { top: 0.05, right: 0.05, bottom: 0.05, left: 0.05 },
+    acceptsWebm: false
+  },
+  mls: {
+    label: 'MLS Virtual Tour',
+    aspectRatio: '16:9',
+    width: 1920,
+    height: 1080,
+    maxSeconds: 300,
+    safeArea: { top: 0.05, right: 0.05, bottom: 0.05, left: 0.05 },
+    acceptsWebm: false,
+    note: 'Most MLS boards require unbranded media: no agent names, logos or contact details.'
+  }
+};
+
+export interface SocialExport {
+  platform: SocialPlatform;
+  blob: Blob;
+  mimeType: string;
+  durationSeconds: number;
+  trimmed: boolean; // Source ran past the platform's limit and was cut short
+}
+
+const TRIM_FADE_SECONDS = 0.5;
+const DOWNLOAD_ERROR = "Couldn't download this video for export. Generated links expire after a while; try generating it again.";
+
+export const isSocialExportSupported = isCanvasRecordingSupported;
+
+export const defaultCaptionAddress = (details: PropertyDetails): string =>
+  [details.street, [details.city, `${details.state} ${details.zip}`.trim()].filter(Boolean).join(', ')]
+    .filter(Boolean)
+    .join(', ');
+
+const waitFor = (target: HTMLMediaElement, event: string) =>
+  new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      target.removeEventListener(event, onEvent);
+      target.removeEventListener('error', onError);
+    };
+    const onEvent = () => { cleanup(); resolve(); };
+    const onError = () => { cleanup(); reject(new Error("Couldn't read this video for export.")); };
+    target.addEventListener(event, onEvent);
+    target.addEventListener('error', onError);
+  });
+
+const seekTo = async (video: HTMLVideoElement, seconds: number) => {
+  const seeked = waitFor(video, 'seeked');
+  video.currentTime = seconds;
+  await seeked;
+};
+
+// Canvas capture needs same-origin pixels: blob URLs already are, remote clips are fetched into one
+const loadSourceVideo = async (uri: string, signal?: AbortSignal) => {
+  let src = uri;
+  if (!uri.startsWith('blob:')) {
+    let res: Response;
+    try {
+      res = await fetch(uri, { signal });
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      throw new Error(DOWNLOAD_ERROR);
+    }
+    if (!res.ok) throw new Error(DOWNLOAD_ERROR);
+    src = URL.createObjectURL(await res.blob());
+  }
+
+  const video = document.createElement('video');
+  video.playsInline = true;
+  video.preload = 'auto';
+  const release = () => {
+    video.pause();
+    video.removeAttribute('src');
+    video.load();
+    if (src !== uri) URL.revokeObjectURL(src);
+  };
+
+  try {
+    const loaded = waitFor(video, 'loadeddata');
+    video.src = src;
+    await loaded;
+
+    // Browser-recorded WebM has no duration in its header until the end has been seen
+    if (!Number.isFinite(video.duration)) {
+      await seekTo(video, Number.MAX_SAFE_INTEGER);
+      if (!Number.isFinite(video.duration)) throw new Error("Couldn't work out how long this video is.");
+    }
+
+    // Playback is started later from a timer, so check now that the browser allows it
+    try {
+      await video.play();
+      video.pause();
+    } catch (e) {
+      throw new Error("The browser blocked video playback. Click Export again to retry.");
+    }
+    return { video, release };
+  } catch (e) {
+    release();
+    throw e;
+  }
+};
+
+// Cover-fit the source, keeping `focusX` of the horizontal overflow to the left
+const drawCover = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement, focusX: number) => {
+  const { width, height } = ctx.canvas;
+  const scale = Math.max(width / video.videoWidth, height / video.videoHeight);
+  const drawWidth = video.videoWidth * scale;
+  const drawHeight = video.videoHeight * scale;
+  ctx.drawImage(video, -(drawWidth - width) * focusX, -(drawHeight - height) / 2, drawWidth, drawHeight);
+};
+
+const drawSource = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement, options: SocialExportOptions) => {
+  if (options.fit === 'crop') {
+    drawCover(ctx, video, options.focusX);
+    return;
+  }
+  // Whole clip, letterboxed over a blurred copy of itself
+  const { width, height } = ctx.canvas;
+  ctx.save();
+  ctx.filter = 'blur(24px) brightness(0.6)';
+  drawCover(ctx, video, 0.5);
+  ctx.restore();
+  const scale = Math.min(width / video.videoWidth, height / video.videoHeight);
+  const drawWidth = video.videoWidth * scale;
+  const drawHeight = video.videoHeight * scale;
+  ctx.drawImage(video, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+// Price over address, bottom-left of the platform's safe area
+const drawCaptions = (ctx: CanvasRenderingContext2D, spec: PlatformSpec, captions: SocialExportOptions['captions']) => {
+  const { width, height } = ctx.canvas;
+  const base = Math.min(width, height);
+  const padding = base * 0.03;
+  const left = width * spec.safeArea.left;
+  const bottom = height * (1 - spec.safeArea.bottom);
+  const maxTextWidth = width * (1 - spec.safeArea.left - spec.safeArea.right) - padding * 2;
+
+  const priceFont = `bold ${Math.round(base * 0.06)}px system-ui, sans-serif`;
+  const addressFont = `600 ${Math.round(base * 0.04)}px system-ui, sans-serif`;
+  const lines: { text: string; font: string; size: number }[] = [];
+  if (captions.price?.trim()) {
+    ctx.font = priceFont;
+    wrapText(ctx, captions.price.trim(), maxTextWidth).forEach(text => lines.push({ text, font: priceFont, size: base * 0.06 }));
+  }
+  if (captions.address.trim()) {
+    ctx.font = addressFont;
+    wrapText(ctx, captions.address.trim(), maxTextWidth).forEach(text => lines.push({ text, font: addressFont, size: base * 0.04 }));
+  }
+  if (lines.length === 0) return;
+
+  const lineHeights = lines.map(line => line.size * 1.25);
+  const textWidth = Math.max(...lines.map(line => { ctx.font = line.font; return ctx.measureText(line.text).width; }));
+  const boxWidth = Math.min(textWidth, maxTextWidth) + padding * 2;
+  const boxHeight = lineHeights.reduce((sum, h) => sum + h, 0) + padding * 2;
+  const top = bottom - boxHeight;
+
+  ctx.fillStyle = "rgba(15, 23, 42, 0.7)";
+  ctx.beginPath();
+  ctx.roundRect(left, top, boxWidth, boxHeight, padding * 0.6);
+  ctx.fill();
+
+  ctx.fillStyle = "#ffffff";
+  ctx.textAlign = "left";
+  ctx.textBaseline = "top";
+  let y = top + padding;
+  lines.forEach((line, idx) => {
+    ctx.font = line.font;
+    ctx.fillText(line.text, left + padding, y + (lineHeights[idx] - line.size) / 2);
+    y += lineHeights[idx];
+  });
+};
+
+// Re-render a generated or composed clip for each platform: reframed, captioned and
+// trimmed to the platform's limit. Each variant records in real time, one after another.
+export const exportSocialVariants = async (
+  sourceUri: string,
+  platforms: SocialPlatform[],
+  options: SocialExportOptions,
+  callbacks: {
+    signal?: AbortSignal;
+    onProgress?: (platform: SocialPlatform, fraction: number) => void;
+    onExported?: (result: SocialExport) => void;
+  } = {}
+): Promise<SocialExport[]> => {
+  const { signal, onProgress, onExported } = callbacks;
+  if (!isSocialExportSupported()) {
+    throw new Error("This browser can't record video. Try a recent version of Chrome, Edge, Firefox or Safari.");
+  }
+  if (platforms.length === 0) throw new Error("Pick at least one format to export.");
+
+  const { video, release } = await loadSourceVideo(sourceUri, signal);
+  // The element's audio is routed into each recording rather than to the speakers
+  const audioContext = new AudioContext();
+  const audioSource = audioContext.createMediaElementSource(video);
+  const results: SocialExport[] = [];
+
+  try {
+    for (const platform of platforms) {
+      throwIfAborted(signal);
+      const spec = PLATFORM_SPECS[platform];
+      const durationSeconds = Math.min(video.duration, spec.maxSeconds);
+      const trimmed = video.duration > spec.maxSeconds;
+
+      const canvas = document.createElement("canvas");
+      canvas.width = spec.width;
+      canvas.height = spec.height;
+      const ctx = canvas.getContext("2d")!;
+
+      const drawFrame = (t: number) => {
+        ctx.fillStyle = "#000000";
+        ctx.fillRect(0, 0, spec.width, spec.height);
+        drawSource(ctx, video, options);
+        if (options.captions.enabled) drawCaptions(ctx, spec, options.captions);
+        if (trimmed && t > durationSeconds - TRIM_FADE_SECONDS) {
+          ctx.fillStyle = `rgba(0, 0, 0, ${Math.min(1, (t - (durationSeconds - TRIM_FADE_SECONDS)) / TRIM_FADE_SECONDS)})`;
+          ctx.fillRect(0, 0, spec.width, spec.height);
+        }
+      };
+
+      await seekTo(video, 0);
+      const destination = audioContext.createMediaStreamDestination();
+      audioSource.connect(destination);
+      try {
+        const { blob, mimeType } = await recordCanvas(canvas, {
+          durationSeconds,
+          drawFrame,
+          clock: () => video.ended ? durationSeconds : video.currentTime,
+          audioTrack: destination.stream.getAudioTracks()[0],
+          onStart: () => {
+            audioContext.resume();
+            video.play();
+          },
+          signal,
+          onProgress: fraction => onProgress?.(platform, fraction)
+        });
+        const result = { platform, blob, mimeType, durationSeconds, trimmed };
+        results.push(result);
+        onExported?.(result);
+      } finally {
+        video.pause();
+        audioSource.disconnect(destination);
+      }
+    }
+    return results;
+  } finally {
+    audioContext.close();
+    release();
+  }
+};
+
+export const exportFileName = (video: VideoSearchResult, result: SocialExport): string => {
+  const base = video.title.replace(/[^\w\s-]/g, '').trim().replace(/\s+/g, '-').toLowerCase() || 'listing-video';
+  return `${base}-${result.platform}.${fileExtensionFor(result.mimeType)}`;
+};
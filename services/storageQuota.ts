@@ -0,0 +1,34 @@
+// How much of the browser's storage allowance this origin is using, for guest saves
+
+export interface StorageUsage {
+  usage: number; // Bytes
+  quota: number; // Bytes
+}
+
+// Above this share of the quota the Saved Searches list warns before saves start failing
+export const STORAGE_WARNING_RATIO = 0.8;
+
+// null where the browser doesn't report it (older Safari, some private modes)
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  try {
+    const { usage, quota } = await navigator.storage.estimate();
+    return usage !== undefined && quota ? { usage, quota } : null;
+  } catch (e) {
+    console.warn("Storage estimate failed:", e);
+    return null;
+  }
+};
+
+// localStorage throws a DOMException; IndexedDB aborts its transaction with one
+export const isQuotaExceededError = (error: unknown): boolean =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.code === 22);
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+};
+
+export const STORAGE_FULL_MESSAGE =
+  "This device is out of space for saved searches. Delete some saved searches (those with photos take the most room) and try again.";
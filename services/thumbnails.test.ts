@@ -0,0 +1,37 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { fetchImageAsDataUrl, getStaticThumbnailUrl } from "./thumbnails";
+
+// Runs under Node, which has no FileReader: the server and watch worker take this path
+describe("fetchImageAsDataUrl", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("returns the image as a base64 data URL", async () => {
+    const bytes = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]);
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(bytes, { headers: { "Content-Type": "image/png" } })));
+    expect(await fetchImageAsDataUrl("https://i.ytimg.com/vi/x/hqdefault.jpg")).toBe("data:image/png;base64,iVBORwD/");
+  });
+
+  it("skips missing images and responses that aren't images", async () => {
+    vi.stubGlobal("fetch", vi.fn<typeof fetch>()
+      .mockResolvedValueOnce(new Response(null, { status: 404 }))
+      .mockResolvedValueOnce(new Response("<html></html>", { headers: { "Content-Type": "text/html" } })));
+    expect(await fetchImageAsDataUrl("https://example.com/gone.jpg")).toBeNull();
+    expect(await fetchImageAsDataUrl("https://example.com/page")).toBeNull();
+  });
+
+  it("returns null when the request fails", async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.stubGlobal("fetch", vi.fn<typeof fetch>().mockRejectedValue(new TypeError("fetch failed")));
+    expect(await fetchImageAsDataUrl("https://example.com/blocked.jpg")).toBeNull();
+  });
+});
+
+describe("getStaticThumbnailUrl", () => {
+  it("derives YouTube thumbnails from the URL", () => {
+    expect(getStaticThumbnailUrl("https://youtu.be/abcdefghijk")).toBe("https://i.ytimg.com/vi/abcdefghijk/hqdefault.jpg");
+    expect(getStaticThumbnailUrl("https://vimeo.com/123456")).toBeUndefined();
+  });
+});
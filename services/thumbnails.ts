@@ -0,0 +1,52 @@
+import { VideoSearchResult } from "../types";
+import { parseVideoUrl } from "./videoUrl";
+
+// Thumbnails that can be derived from the URL alone, without a network call.
+// Other platforms get theirs from the oEmbed response during the availability check.
+export const getStaticThumbnailUrl = (uri: string): string | undefined => {
+  const parsed = parseVideoUrl(uri);
+  if (parsed?.platform === 'youtube') {
+    return `https://i.ytimg.com/vi/${encodeURIComponent(parsed.videoId)}/hqdefault.jpg`;
+  }
+  return undefined;
+};
+
+// Fill in missing thumbnails where the URL is enough (also upgrades older saved searches)
+export const withThumbnails = (videos: VideoSearchResult[]): VideoSearchResult[] =>
+  videos.map(video => {
+    if (video.thumbnailUrl) return video;
+    const thumbnailUrl = getStaticThumbnailUrl(video.uri);
+    return thumbnailUrl ? { ...video, thumbnailUrl } : video;
+  });
+
+// Node has Buffer but no FileReader; the browser has btoa. Chunked so large images don't
+// overflow String.fromCharCode's argument limit.
+const toBase64 = (bytes: Uint8Array): string => {
+  if (typeof Buffer !== 'undefined') return Buffer.from(bytes).toString('base64');
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// Download an image as a data URL (for the PDF, and the visual check on the server and
+// watch worker). Returns null if the host blocks CORS or the image is gone, so callers
+// can simply skip it.
+export const fetchImageAsDataUrl = async (url: string): Promise<string | null> => {
+  try {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 5000);
+    const res = await fetch(url, { signal: controller.signal });
+    clearTimeout(timeoutId);
+    if (!res.ok) return null;
+
+    const blob = await res.blob();
+    if (!blob.type.startsWith('image/')) return null;
+
+    return `data:${blob.type};base64,${toBase64(new Uint8Array(await blob.arrayBuffer()))}`;
+  } catch (e) {
+    console.warn(`Could not load thumbnail: ${url}`, e);
+    return null;
+  }
+};
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { VideoJob, VideoOperation, VideoOperationState } from "../types";
+import { createLocalVideoJobStore, createVideoJobManager, VideoJobManager, VideoJobStore } from "./videoJobs";
+
+class MemoryStorage implements Storage {
+  [name: string]: any;
+  private items = new Map<string, string>();
+  get length() { return this.items.size; }
+  clear() { this.items.clear(); }
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  key(index: number) { return Array.from(this.items.keys())[index] ?? null; }
+  removeItem(key: string) { this.items.delete(key); }
+  setItem(key: string, value: string) { this.items.set(key, String(value)); }
+}
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+const job = (id: string, extra: Partial<VideoJob> = {}): VideoJob => ({
+  id,
+  kind: 'promo',
+  operationName: `operations/${id}`,
+  title: "Promotional Tutorial",
+  status: 'pending',
+  createdAt: Date.now() - MINUTE,
+  updatedAt: Date.now() - MINUTE,
+  ...extra
+});
+
+const memoryStore = (jobs: VideoJob[]): VideoJobStore & { saved: VideoJob[] } => {
+  const store = {
+    saved: jobs,
+    load: () => store.saved,
+    save: (next: VideoJob[]) => { store.saved = next; }
+  };
+  return store;
+};
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+let manager: VideoJobManager | null = null;
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  manager?.stop();
+  manager = null;
+  vi.restoreAllMocks();
+});
+
+// Starts a manager over `jobs` and waits for its first poll
+const startManager = async (jobs: VideoJob[], checkOperation: (operation: VideoOperation) => Promise<VideoOperationState>) => {
+  const store = memoryStore(jobs);
+  const onComplete = vi.fn();
+  manager = createVideoJobManager({ store, onChange: () => {}, onComplete, checkOperation, pollIntervalMs: 60 * MINUTE, timeoutMs: 20 * MINUTE });
+  manager.start();
+  await settle();
+  return { store, onComplete };
+};
+
+describe("createVideoJobManager", () => {
+  it("resumes polling stored pending jobs and completes them", async () => {
+    const checkOperation = vi.fn(async (): Promise<VideoOperationState> => ({ state: 'done', uri: "https://api.example.com/veo.mp4" }));
+    const { store, onComplete } = await startManager([job("a", { jobToken: "token-a" }), job("b", { status: 'completed' })], checkOperation);
+
+    expect(checkOperation.mock.calls).toEqual([[{ operationName: "operations/a", jobToken: "token-a" }]]);
+    expect(store.saved[0]).toMatchObject({ status: 'completed', result: { uri: "https://api.example.com/veo.mp4", isGenerated: true } });
+    expect(onComplete).toHaveBeenCalledWith(expect.objectContaining({ id: "a", status: 'completed' }));
+  });
+
+  it("keeps a job pending when its check fails or Veo is still working", async () => {
+    const checkOperation = vi.fn<(operation: VideoOperation) => Promise<VideoOperationState>>()
+      .mockRejectedValueOnce(new TypeError("fetch failed"))
+      .mockResolvedValueOnce({ state: 'running' });
+    const { store } = await startManager([job("a"), job("b")], checkOperation);
+    expect(store.saved.map(j => j.status)).toEqual(['pending', 'pending']);
+  });
+
+  it("stores the job token from the start call so later checks can send it", async () => {
+    const store = memoryStore([]);
+    manager = createVideoJobManager({ store, onChange: () => {} });
+    const created = await manager.submit({ kind: 'promo', title: "Promotional Tutorial" }, async () => ({ operationName: "operations/new", jobToken: "token-new" }));
+    expect(created).toMatchObject({ operationName: "operations/new", jobToken: "token-new", status: 'pending' });
+    expect(store.saved).toEqual([created]);
+  });
+
+  it("fails jobs that are still running after the timeout", async () => {
+    const checkOperation = vi.fn(async (): Promise<VideoOperationState> => ({ state: 'running' }));
+    const { store } = await startManager([job("old", { createdAt: Date.now() - 21 * MINUTE }), job("new")], checkOperation);
+    expect(store.saved[0]).toMatchObject({ status: 'failed', error: "Timed out after 20 minutes." });
+    expect(store.saved[1].status).toBe('pending');
+  });
+
+  it("drops finished jobs past retention but keeps pending ones", async () => {
+    const checkOperation = vi.fn(async (): Promise<VideoOperationState> => ({ state: 'running' }));
+    const stale = { createdAt: Date.now() - 3 * DAY, updatedAt: Date.now() - 3 * DAY };
+    const { store } = await startManager([
+      job("expired", { ...stale, status: 'completed' }),
+      job("recent", { status: 'failed', error: "Quota" }),
+      job("stuck", stale)
+    ], checkOperation);
+    expect(store.saved.map(j => [j.id, j.status])).toEqual([['recent', 'failed'], ['stuck', 'failed']]);
+  });
+});
+
+describe("createLocalVideoJobStore", () => {
+  it("keeps each account's jobs apart", () => {
+    const storage = new MemoryStorage();
+    createLocalVideoJobStore("alice", storage).save([job("a")]);
+    expect(createLocalVideoJobStore("alice", storage).load().map(j => j.id)).toEqual(["a"]);
+    expect(createLocalVideoJobStore("bob", storage).load()).toEqual([]);
+  });
+});
@@ -0,0 +1,164 @@
+import { PropertyDetails, VideoJob, VideoJobKind, VideoOperation, VideoOperationState, VideoSearchResult } from "../types";
+import { getVideoOperationState } from "./geminiClient";
+import { describeError } from "./errors";
+import { normalizePropertyDetails } from "./searchCache";
+
+const LOCAL_JOBS_KEY = 're_app_video_jobs';
+const POLL_INTERVAL_MS = 10_000;
+// Veo usually finishes in a few minutes; anything still running after this is given up on
+export const VIDEO_JOB_TIMEOUT_MS = 20 * 60 * 1000;
+// Veo deletes generated files after two days, so older finished jobs have nothing left to show
+const RETENTION_MS = 2 * 24 * 60 * 60 * 1000;
+
+export interface VideoJobStore {
+  load: () => VideoJob[];
+  save: (jobs: VideoJob[]) => void;
+}
+
+// One list per account, so whoever signs in next on this browser never sees or resumes
+// another account's jobs. `storage` defaults to the browser's localStorage.
+export const createLocalVideoJobStore = (userId: string, storage?: Storage): VideoJobStore => {
+  const key = `${LOCAL_JOBS_KEY}:${userId}`;
+  return {
+    load: () => {
+      const existing = (storage || localStorage).getItem(key);
+      return existing ? JSON.parse(existing) : [];
+    },
+    save: (jobs) => (storage || localStorage).setItem(key, JSON.stringify(jobs))
+  };
+};
+
+export interface VideoJobManagerOptions {
+  onChange: (jobs: VideoJob[]) => void;
+  onComplete?: (job: VideoJob) => void;
+  store: VideoJobStore;
+  // Injectable for offline runs; defaults to asking the Gemini API
+  checkOperation?: (operation: VideoOperation) => Promise<VideoOperationState>;
+  pollIntervalMs?: number;
+  timeoutMs?: number;
+}
+
+export interface VideoJobManager {
+  start: () => void;
+  stop: () => void;
+  submit: (
+    job: { kind: VideoJobKind; title: string; details?: PropertyDetails },
+    begin: () => Promise<VideoOperation>
+  ) => Promise<VideoJob>;
+  cancel: (id: string) => void;
+  remove: (id: string) => void;
+  clearFinished: () => void;
+}
+
+const toResult = (job: VideoJob, uri: string): VideoSearchResult => ({
+  title: job.title,
+  uri,
+  source: "Generated with Veo",
+  isGenerated: true
+});
+
+// Street and zip decide whether a finished listing clip belongs with the search on screen
+export const isJobForProperty = (job: VideoJob, details: PropertyDetails): boolean => {
+  if (job.kind !== 'listing' || !job.details) return false;
+  const a = normalizePropertyDetails(job.details);
+  const b = normalizePropertyDetails(details);
+  return a.street === b.street && a.zip === b.zip;
+};
+
+// Tracks Veo generations by operation name in storage, so a reload or closed modal
+// never loses one. Pending jobs are polled on an interval until they finish, fail or
+// time out. Cancelling only stops tracking: the Gemini API has no way to stop a generation.
+export const createVideoJobManager = (options: VideoJobManagerOptions): VideoJobManager => {
+  const {
+    onChange,
+    onComplete,
+    store,
+    checkOperation = getVideoOperationState,
+    pollIntervalMs = POLL_INTERVAL_MS,
+    timeoutMs = VIDEO_JOB_TIMEOUT_MS
+  } = options;
+  const loadedAt = Date.now();
+  let jobs = store.load().filter(job => job.status === 'pending' || loadedAt - job.updatedAt < RETENTION_MS);
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let polling = false;
+
+  const commit = (next: VideoJob[]) => {
+    jobs = next;
+    store.save(jobs);
+    onChange(jobs);
+  };
+
+  const update = (id: string, changes: Partial<VideoJob>): VideoJob | undefined => {
+    commit(jobs.map(job => job.id === id ? { ...job, ...changes, updatedAt: Date.now() } : job));
+    return jobs.find(job => job.id === id);
+  };
+
+  const pollJob = async (job: VideoJob) => {
+    let state: VideoOperationState | null = null;
+    try {
+      state = await checkOperation({ operationName: job.operationName, jobToken: job.jobToken });
+    } catch (err) {
+      // Transient (network, quota); try again on the next tick
+      console.warn(`Could not check video job ${job.operationName}: ${describeError(err).message}`);
+    }
+
+    // Cancelled or removed while the check was in flight
+    const current = jobs.find(j => j.id === job.id);
+    if (!current || current.status !== 'pending') return;
+
+    if (state?.state === 'done') {
+      const completed = update(job.id, { status: 'completed', result: toResult(job, state.uri), error: undefined });
+      if (completed) onComplete?.(completed);
+    } else if (state?.state === 'failed') {
+      update(job.id, { status: 'failed', error: state.error });
+    } else if (Date.now() - job.createdAt > timeoutMs) {
+      update(job.id, { status: 'failed', error: `Timed out after ${Math.round(timeoutMs / 60000)} minutes.` });
+    }
+  };
+
+  const poll = async () => {
+    if (polling) return;
+    polling = true;
+    try {
+      for (const job of jobs.filter(j => j.status === 'pending')) {
+        await pollJob(job);
+      }
+    } finally {
+      polling = false;
+    }
+  };
+
+  return {
+    start: () => {
+      onChange(jobs);
+      if (timer) return;
+      timer = setInterval(poll, pollIntervalMs);
+      poll();
+    },
+    stop: () => {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+    // Key selection and submission errors reach the caller; nothing is stored until Veo accepts the job
+    submit: async (job, begin) => {
+      const { operationName, jobToken } = await begin();
+      const now = Date.now();
+      const created: VideoJob = {
+        ...job,
+        id: `job-${now}`,
+        operationName,
+        jobToken,
+        status: 'pending',
+        createdAt: now,
+        updatedAt: now
+      };
+      commit([created, ...jobs]);
+      return created;
+    },
+    cancel: (id) => {
+      update(id, { status: 'cancelled' });
+    },
+    remove: (id) => commit(jobs.filter(job => job.id !== id)),
+    clearFinished: () => commit(jobs.filter(job => job.status === 'pending'))
+  };
+};
@@ -0,0 +1,41 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { ImageFile, PropertyDetails } from "../types";
+import { verifyVideosVisually } from "./geminiClient";
+import { searchVideos } from "./videoSearchService";
+import { mockProvider } from "./providers/mockProvider";
+import { geminiProvider } from "./providers/geminiProvider";
+
+vi.mock(import("./geminiClient"), async importOriginal => ({
+  ...await importOriginal(),
+  verifyVideosVisually: vi.fn(async videos => videos)
+}));
+
+const details: PropertyDetails = { street: "123 Oak St", city: "Springfield", state: "IL", zip: "62701", mlsNumber: "MLS123" };
+
+const photo: ImageFile = {
+  file: new File(["front"], "front.jpg", { type: "image/jpeg" }),
+  preview: "",
+  base64: "ZnJvbnQ=",
+  mimeType: "image/jpeg"
+};
+
+describe("searchVideos", () => {
+  beforeEach(() => vi.mocked(verifyVideosVisually).mockClear());
+
+  it("doesn't send mock results to Gemini for a photo check", async () => {
+    const result = await searchVideos(details, photo, null, {}, [mockProvider]);
+    expect(result.videos.length).toBeGreaterThan(0);
+    expect(verifyVideosVisually).not.toHaveBeenCalled();
+  });
+
+  it("checks photos when a real provider ran", async () => {
+    const search = vi.spyOn(geminiProvider, "search").mockResolvedValue({
+      summary: "Found one",
+      videos: [{ title: "Tour", uri: "https://www.youtube.com/watch?v=Xk2mP9qLw3s", source: "www.youtube.com" }],
+      found: true
+    });
+    await searchVideos(details, photo, null, {}, [geminiProvider]);
+    expect(verifyVideosVisually).toHaveBeenCalledOnce();
+    search.mockRestore();
+  });
+});
@@ -0,0 +1,122 @@
+import {
+  PropertyDetails,
+  SearchResponse,
+  ImageFile,
+  VideoSearchProvider,
+  VideoSearchProviderId,
+  SearchOptions
+} from "../types";
+import { getEnv } from "./env";
+import { dedupeVideos } from "./videoUrl";
+import { rankVideos } from "./scoring";
+import { withThumbnails } from "./thumbnails";
+import { verifyVideosVisually } from "./geminiClient";
+import { throwIfAborted } from "./abort";
+import { geminiProvider } from "./providers/geminiProvider";
+import { youtubeProvider } from "./providers/youtubeProvider";
+import { mockProvider } from "./providers/mockProvider";
+
+const PROVIDERS: Record<VideoSearchProviderId, VideoSearchProvider> = {
+  gemini: geminiProvider,
+  youtube: youtubeProvider,
+  mock: mockProvider
+};
+
+const DEFAULT_PROVIDERS: VideoSearchProviderId[] = ['gemini'];
+
+// Providers come from VITE_VIDEO_SEARCH_PROVIDERS, e.g. "gemini,youtube" or "mock".
+// Unknown ids (including inherited keys like "constructor") are ignored; an empty or
+// fully invalid list falls back to Gemini.
+export const getActiveProviders = (): VideoSearchProvider[] => {
+  const configured = getEnv("VITE_VIDEO_SEARCH_PROVIDERS")
+    .split(",")
+    .map(id => id.trim().toLowerCase())
+    .filter((id): id is VideoSearchProviderId => Object.hasOwn(PROVIDERS, id));
+
+  const ids = configured.length > 0 ? Array.from(new Set(configured)) : DEFAULT_PROVIDERS;
+  return ids.map(id => PROVIDERS[id]);
+};
+
+const mergeResponses = (
+  responses: { provider: VideoSearchProvider; response: SearchResponse }[]
+): SearchResponse => {
+  // Deduplicate videos across providers, keeping the first provider's entry
+  const videos = dedupeVideos(...responses.map(({ response }) => response.videos));
+
+  return {
+    summary: responses.map(({ provider, response }) => `${provider.name}: ${response.summary}`).join("\n\n"),
+    videos,
+    found: videos.length > 0
+  };
+};
+
+const runProviders = async (
+  details: PropertyDetails,
+  frontImage: ImageFile | null,
+  backImage: ImageFile | null,
+  options: SearchOptions,
+  providers: VideoSearchProvider[]
+): Promise<SearchResponse> => {
+  // A single provider keeps its own error messages, summary and partial results untouched
+  if (providers.length === 1) {
+    return providers[0].search(details, frontImage, backImage, options);
+  }
+
+  // Skip providers without credentials when fanning out, unless nothing else is left
+  const usable = providers.filter(p => p.isConfigured());
+  const targets = usable.length > 0 ? usable : providers;
+
+  // Partial results from one provider would hide the others, so only stages are forwarded
+  const providerOptions: SearchOptions = {
+    signal: options.signal,
+    onProgress: options.onProgress && (({ stage, message }) => options.onProgress!({ stage, message }))
+  };
+
+  const settled = await Promise.allSettled(targets.map(p => p.search(details, frontImage, backImage, providerOptions)));
+  throwIfAborted(options.signal);
+
+  const succeeded: { provider: VideoSearchProvider; response: SearchResponse }[] = [];
+  const failures: unknown[] = [];
+  settled.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      succeeded.push({ provider: targets[index], response: result.value });
+    } else {
+      console.warn(`Video search provider "${targets[index].id}" failed:`, result.reason);
+      failures.push(result.reason);
+    }
+  });
+
+  if (succeeded.length === 0) {
+    throw failures[0] instanceof Error ? failures[0] : new Error("All video search providers failed.");
+  }
+
+  return mergeResponses(succeeded);
+};
+
+export const searchVideos = async (
+  details: PropertyDetails,
+  frontImage: ImageFile | null,
+  backImage: ImageFile | null,
+  options: SearchOptions = {},
+  providers: VideoSearchProvider[] = getActiveProviders()
+): Promise<SearchResponse> => {
+  const { signal, onProgress } = options;
+  const response = await runProviders(details, frontImage, backImage, options, providers);
+
+  let videos = withThumbnails(response.videos);
+  // The mock provider is meant to run offline, so its fixtures never go to Gemini for a photo check
+  const offline = providers.every(p => p.id === 'mock');
+  if ((frontImage || backImage) && !offline) {
+    onProgress?.({
+      stage: 'verifying',
+      message: "Comparing video thumbnails with your photos...",
+      partial: { ...response, videos: rankVideos(videos, details) }
+    });
+    videos = await verifyVideosVisually(videos, frontImage, backImage, signal);
+  }
+
+  // Best matches first, whichever provider found them
+  const result = { ...response, videos: rankVideos(videos, details) };
+  onProgress?.({ stage: 'done', message: `Found ${result.videos.length} video(s).`, partial: result });
+  return result;
+};
@@ -0,0 +1,141 @@
+import { VideoSearchResult } from "../types";
+
+export type VideoPlatform = 'youtube' | 'vimeo' | 'facebook' | 'instagram' | 'tiktok' | 'matterport';
+
+export interface CanonicalVideo {
+  platform: VideoPlatform;
+  videoId: string;
+}
+
+const hostIs = (hostname: string, host: string): boolean =>
+  hostname === host || hostname.endsWith(`.${host}`);
+
+// Reduce a link to its platform + video ID, e.g. youtu.be/X, youtube.com/watch?v=X&t=3
+// and youtube.com/shorts/X all become { platform: 'youtube', videoId: 'X' }.
+// Returns null for links that are not a recognised video on a supported platform.
+export const parseVideoUrl = (uri: string): CanonicalVideo | null => {
+  let url: URL;
+  try {
+    url = new URL(uri.trim());
+  } catch (e) {
+    return null;
+  }
+
+  const hostname = url.hostname.toLowerCase();
+  const segments = url.pathname.split("/").filter(Boolean);
+  let match: RegExpMatchArray | null;
+
+  if (hostIs(hostname, "youtu.be")) {
+    return segments[0] ? { platform: 'youtube', videoId: segments[0] } : null;
+  }
+  if (hostIs(hostname, "youtube.com") || hostIs(hostname, "youtube-nocookie.com")) {
+    const v = url.searchParams.get("v");
+    if (v) return { platform: 'youtube', videoId: v };
+    if (segments.length >= 2 && ["shorts", "embed", "live", "v"].includes(segments[0])) {
+      return { platform: 'youtube', videoId: segments[1] };
+    }
+    return null;
+  }
+
+  if (hostIs(hostname, "vimeo.com")) {
+    // vimeo.com/123, vimeo.com/channels/x/123, player.vimeo.com/video/123
+    const id = [...segments].reverse().find(s => /^\d+$/.test(s));
+    return id ? { platform: 'vimeo', videoId: id } : null;
+  }
+
+  if (hostIs(hostname, "facebook.com") || hostIs(hostname, "fb.watch")) {
+    if (hostIs(hostname, "fb.watch")) {
+      return segments[0] ? { platform: 'facebook', videoId: segments[0] } : null;
+    }
+    const v = url.searchParams.get("v");
+    if (v) return { platform: 'facebook', videoId: v };
+    if ((match = url.pathname.match(/\/(?:videos|reel)\/(?:[^/]+\/)?(\d+)/))) {
+      return { platform: 'facebook', videoId: match[1] };
+    }
+    return null;
+  }
+
+  if (hostIs(hostname, "instagram.com")) {
+    if ((match = url.pathname.match(/^\/(?:[^/]+\/)?(?:p|reel|reels|tv)\/([^/]+)/))) {
+      return { platform: 'instagram', videoId: match[1] };
+    }
+    return null;
+  }
+
+  if (hostIs(hostname, "tiktok.com")) {
+    if ((match = url.pathname.match(/\/video\/(\d+)/))) {
+      return { platform: 'tiktok', videoId: match[1] };
+    }
+    return null;
+  }
+
+  if (hostIs(hostname, "matterport.com")) {
+    const m = url.searchParams.get("m");
+    if (m) return { platform: 'matterport', videoId: m };
+    if ((match = url.pathname.match(/\/models\/([^/]+)/))) {
+      return { platform: 'matterport', videoId: match[1] };
+    }
+    return null;
+  }
+
+  return null;
+};
+
+// Query parameters that never identify content and only track where a click came from
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|igshid|si|feature|ref|ref_src|mc_cid|mc_eid)$/i;
+
+// Stable key for deduplicating a video across searches and merges.
+// Known platforms collapse to "platform:id"; other links are normalised
+// (lower-case host, no www, no tracking params, fragment or trailing slash).
+export const canonicalVideoKey = (uri: string): string => {
+  const parsed = parseVideoUrl(uri);
+  if (parsed) return `${parsed.platform}:${parsed.videoId}`;
+
+  try {
+    const url = new URL(uri.trim());
+    const params = new URLSearchParams();
+    Array.from(url.searchParams.entries())
+      .filter(([key]) => !TRACKING_PARAMS.test(key))
+      .sort(([a], [b]) => a.localeCompare(b))
+      .forEach(([key, value]) => params.append(key, value));
+    const host = url.hostname.toLowerCase().replace(/^www\./, "");
+    const path = url.pathname.replace(/\/+$/, "");
+    const query = params.toString();
+    return `${host}${path}${query ? `?${query}` : ""}`;
+  } catch (e) {
+    return uri.trim();
+  }
+};
+
+// Merge video lists, keeping the first occurrence of each canonical video
+export const dedupeVideos = (...lists: VideoSearchResult[][]): VideoSearchResult[] => {
+  const uniqueVideos = new Map<string, VideoSearchResult>();
+  lists.forEach(list => {
+    list.forEach(video => {
+      const key = canonicalVideoKey(video.uri);
+      if (!uniqueVideos.has(key)) uniqueVideos.set(key, video);
+    });
+  });
+  return Array.from(uniqueVideos.values());
+};
+
+// Player URL for platforms that allow iframe embedding, or null if the link
+// has to be opened on the original site.
+export const getEmbedUrl = (uri: string): string | null => {
+  const parsed = parseVideoUrl(uri);
+  if (!parsed) return null;
+  const id = encodeURIComponent(parsed.videoId);
+
+  switch (parsed.platform) {
+    case 'youtube':
+      return `https://www.youtube-nocookie.com/embed/${id}?autoplay=1&rel=0`;
+    case 'vimeo':
+      return `https://player.vimeo.com/video/${id}?autoplay=1`;
+    case 'matterport':
+      return `https://my.matterport.com/show/?m=${id}&play=1`;
+    case 'facebook':
+      return `https://www.facebook.com/plugins/video.php?href=${encodeURIComponent(uri)}&show_text=false&autoplay=true`;
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,70 @@
+import { collection, addDoc, query, where, getDocs, doc, writeBatch } from "firebase/firestore";
+import { WatchAlert } from "../types";
+import { db } from "./firebase";
+import { searchRepository } from "./searchRepository";
+import { WatchStore } from "./watchlist";
+
+const LOCAL_ALERTS_KEY = 're_app_alerts';
+
+const readLocal = <T>(key: string): T[] => {
+  const existing = localStorage.getItem(key);
+  return existing ? JSON.parse(existing) : [];
+};
+
+// Firestore rejects undefined fields, so round-trip through JSON to drop them
+const stripUndefined = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// Watched searches and alerts for the signed-in user: Firestore when configured, localStorage otherwise
+export const browserWatchStore: WatchStore = {
+  listWatchedSearches: async (userId) => {
+    if (!userId) return [];
+    // Checks re-run the search with its photos, so fetch them up front
+    const searches = await searchRepository.listWatched(userId);
+    return Promise.all(searches.map(async search => ({ ...search, ...await searchRepository.loadImages(search) })));
+  },
+
+  updateSearch: (search) => searchRepository.update(search.id!, {
+    results: search.results,
+    watched: search.watched,
+    watchIntervalHours: search.watchIntervalHours,
+    lastCheckedAt: search.lastCheckedAt,
+    nextCheckAt: search.nextCheckAt
+  }),
+
+  addAlerts: async (alerts) => {
+    if (db) {
+      return Promise.all(alerts.map(async alert => {
+        const ref = await addDoc(collection(db, 'alerts'), stripUndefined(alert));
+        return { ...alert, id: ref.id };
+      }));
+    }
+    const stored = alerts.map((alert, idx) => ({ ...alert, id: `local-${Date.now()}-${idx}` }));
+    localStorage.setItem(LOCAL_ALERTS_KEY, JSON.stringify([...readLocal<WatchAlert>(LOCAL_ALERTS_KEY), ...stored]));
+    return stored;
+  }
+};
+
+// Newest first
+export const listAlerts = async (userId: string): Promise<WatchAlert[]> => {
+  let alerts: WatchAlert[];
+  if (db) {
+    const snapshot = await getDocs(query(collection(db, 'alerts'), where('userId', '==', userId)));
+    alerts = snapshot.docs.map(d => ({ id: d.id, ...d.data() } as WatchAlert));
+  } else {
+    alerts = readLocal<WatchAlert>(LOCAL_ALERTS_KEY).filter(a => a.userId === userId);
+  }
+  return alerts.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const markAlertsRead = async (alertIds: string[]): Promise<void> => {
+  if (alertIds.length === 0) return;
+  if (db) {
+    const batch = writeBatch(db);
+    alertIds.forEach(id => batch.update(doc(db, 'alerts', id), { read: true }));
+    await batch.commit();
+    return;
+  }
+  const ids = new Set(alertIds);
+  const alerts = readLocal<WatchAlert>(LOCAL_ALERTS_KEY).map(a => ids.has(a.id!) ? { ...a, read: true } : a);
+  localStorage.setItem(LOCAL_ALERTS_KEY, JSON.stringify(alerts));
+};
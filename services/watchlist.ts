@@ -0,0 +1,134 @@
+import { SavedSearch, SearchResponse, SearchOptions, PropertyDetails, ImageFile, WatchAlert, VideoSearchResult } from "../types";
+import { searchVideos } from "./videoSearchService";
+import { checkVideoAvailability, verifyVideoLinks, LinkChecker } from "./linkCheck";
+import { diffSearchResults } from "./searchDiff";
+import { canonicalVideoKey } from "./videoUrl";
+import { fromSerializableImage } from "./savedImages";
+import { isAbortError, throwIfAborted } from "./abort";
+
+export const WATCH_INTERVAL_OPTIONS: { hours: number; label: string }[] = [
+  { hours: 6, label: 'Every 6 hours' },
+  { hours: 24, label: 'Daily' },
+  { hours: 72, label: 'Every 3 days' },
+  { hours: 168, label: 'Weekly' }
+];
+
+export const DEFAULT_WATCH_INTERVAL_HOURS = 24;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// A failed check is retried sooner than the regular interval
+const RETRY_AFTER_FAILURE_MS = HOUR_MS;
+
+// Where watched searches and alerts live: Firestore/localStorage in the app, a JSON file in the worker
+export interface WatchStore {
+  listWatchedSearches: (userId?: string) => Promise<SavedSearch[]>;
+  updateSearch: (search: SavedSearch) => Promise<void>;
+  addAlerts: (alerts: WatchAlert[]) => Promise<WatchAlert[]>;
+}
+
+export interface WatchCheckDeps {
+  search: (details: PropertyDetails, front: ImageFile | null, back: ImageFile | null, options?: SearchOptions) => Promise<SearchResponse>;
+  checkLink: LinkChecker;
+}
+
+export const defaultWatchDeps: WatchCheckDeps = {
+  search: searchVideos,
+  checkLink: checkVideoAvailability
+};
+
+export const isWatchDue = (search: SavedSearch, now: number = Date.now()): boolean =>
+  !!search.watched && (search.nextCheckAt ?? 0) <= now;
+
+// Start (or stop) watching. A search that was never checked is due right away,
+// otherwise one interval after its last check.
+export const setWatch = (
+  search: SavedSearch,
+  watched: boolean,
+  intervalHours: number = search.watchIntervalHours || DEFAULT_WATCH_INTERVAL_HOURS
+): SavedSearch => ({
+  ...search,
+  watched,
+  watchIntervalHours: intervalHours,
+  nextCheckAt: search.lastCheckedAt ? search.lastCheckedAt + intervalHours * HOUR_MS : Date.now()
+});
+
+const toAlertVideos = (videos: VideoSearchResult[]) => videos.map(({ title, uri }) => ({ title, uri }));
+
+// Re-run one watched search and re-check the links it already has.
+// New videos are added to the saved search and newly dead ones are marked
+// unavailable, so each change is reported exactly once.
+export const checkWatchedSearch = async (
+  search: SavedSearch,
+  deps: WatchCheckDeps = defaultWatchDeps,
+  signal?: AbortSignal
+): Promise<{ search: SavedSearch; alerts: WatchAlert[] }> => {
+  const now = Date.now();
+  const saved = search.results.videos || [];
+  const fresh = await deps.search(
+    search.propertyDetails,
+    fromSerializableImage(search.frontImage, 'Front Image'),
+    fromSerializableImage(search.backImage, 'Back Image'),
+    { signal }
+  );
+  const diff = diffSearchResults(saved, fresh.videos);
+
+  // Links the search reports dead, plus links that fail a direct re-check
+  const reportedDead = new Set(diff.unavailable.map(video => canonicalVideoKey(video.uri)));
+  const rechecked = await verifyVideoLinks(
+    saved.map(video => reportedDead.has(canonicalVideoKey(video.uri)) ? { ...video, availability: 'unavailable' as const, lastCheckedAt: now } : video),
+    { checker: deps.checkLink, signal }
+  );
+  throwIfAborted(signal);
+
+  const newlyDead = rechecked.filter((video, idx) => video.availability === 'unavailable' && saved[idx].availability !== 'unavailable');
+  const videos = [...rechecked, ...diff.added];
+
+  const alerts: WatchAlert[] = [];
+  const baseAlert = {
+    userId: search.userId,
+    searchId: search.id!,
+    searchTitle: search.title || search.propertyDetails.street,
+    createdAt: now,
+    read: false
+  };
+  if (diff.added.length > 0) alerts.push({ ...baseAlert, kind: 'new-videos', videos: toAlertVideos(diff.added) });
+  if (newlyDead.length > 0) alerts.push({ ...baseAlert, kind: 'dead-videos', videos: toAlertVideos(newlyDead) });
+
+  const intervalMs = (search.watchIntervalHours || DEFAULT_WATCH_INTERVAL_HOURS) * HOUR_MS;
+  return {
+    search: {
+      ...search,
+      results: { ...search.results, videos, found: videos.length > 0 },
+      lastCheckedAt: now,
+      nextCheckAt: now + intervalMs
+    },
+    alerts
+  };
+};
+
+// Check every due search in turn and store the results. Returns the alerts that were created.
+// One failing search is logged and retried later; it never stops the others.
+export const runDueWatchChecks = async (
+  store: WatchStore,
+  options: { userId?: string; deps?: WatchCheckDeps; signal?: AbortSignal } = {}
+): Promise<WatchAlert[]> => {
+  const { userId, deps = defaultWatchDeps, signal } = options;
+  const due = (await store.listWatchedSearches(userId)).filter(search => isWatchDue(search));
+  const created: WatchAlert[] = [];
+
+  for (const search of due) {
+    throwIfAborted(signal);
+    try {
+      const result = await checkWatchedSearch(search, deps, signal);
+      await store.updateSearch(result.search);
+      if (result.alerts.length > 0) created.push(...await store.addAlerts(result.alerts));
+    } catch (err) {
+      if (isAbortError(err) || signal?.aborted) throw err;
+      console.error(`Watch check failed for "${search.title || search.propertyDetails.street}":`, err);
+      await store.updateSearch({ ...search, nextCheckAt: Date.now() + RETRY_AFTER_FAILURE_MS });
+    }
+  }
+
+  return created;
+};
@@ -0,0 +1,75 @@
+import { PropertyDetails, VideoSearchResult } from "../types";
+import { dedupeVideos } from "./videoUrl";
+
+// Direct YouTube Data API v3 search. Server only: it needs YOUTUBE_API_KEY, which must
+// never reach the browser (the app calls this through /api/youtube/search).
+const YOUTUBE_SEARCH_URL = "https://www.googleapis.com/youtube/v3/search";
+
+// The parts of a search.list response we read
+interface YouTubeThumbnail {
+  url?: string;
+}
+
+interface YouTubeSearchItem {
+  id?: { kind?: string; videoId?: string };
+  snippet?: {
+    title?: string;
+    thumbnails?: { default?: YouTubeThumbnail; medium?: YouTubeThumbnail };
+  };
+}
+
+interface YouTubeSearchResponse {
+  items?: YouTubeSearchItem[];
+}
+
+const getYouTubeApiKey = (): string => process.env.YOUTUBE_API_KEY || "";
+
+export const hasYouTubeApiKey = (): boolean => !!getYouTubeApiKey();
+
+const buildQueries = (details: PropertyDetails): string[] => {
+  const queries = [
+    `${details.street} ${details.city} ${details.state} home tour`,
+  ];
+  if (details.mlsNumber.trim()) {
+    queries.push(`${details.mlsNumber.replace(/^MLS#\s*/i, '')} ${details.city}`);
+  }
+  return queries;
+};
+
+const runQuery = async (q: string, apiKey: string, signal?: AbortSignal): Promise<VideoSearchResult[]> => {
+  const params = new URLSearchParams({
+    part: "snippet",
+    type: "video",
+    maxResults: "10",
+    q,
+    key: apiKey
+  });
+
+  const res = await fetch(`${YOUTUBE_SEARCH_URL}?${params.toString()}`, { signal });
+  if (!res.ok) {
+    throw new Error(`YouTube Data API returned status ${res.status}`);
+  }
+
+  const data: YouTubeSearchResponse = await res.json();
+  return (data.items || []).flatMap(item => {
+    const videoId = item.id?.videoId;
+    if (!videoId) return [];
+    const thumbnails = item.snippet?.thumbnails;
+    return [{
+      title: item.snippet?.title || "YouTube Video",
+      uri: `https://www.youtube.com/watch?v=${videoId}`,
+      source: "www.youtube.com",
+      discoveredVia: 'provider' as const,
+      thumbnailUrl: thumbnails?.medium?.url || thumbnails?.default?.url
+    }];
+  });
+};
+
+export const searchYouTubeVideos = async (details: PropertyDetails, signal?: AbortSignal): Promise<VideoSearchResult[]> => {
+  const apiKey = getYouTubeApiKey();
+  if (!apiKey) {
+    throw new Error("YouTube API Key not found. Please set YOUTUBE_API_KEY for the API server.");
+  }
+  const batches = await Promise.all(buildQueries(details).map(q => runQuery(q, apiKey, signal)));
+  return dedupeVideos(...batches);
+};
@@ -6,11 +6,49 @@ export interface PropertyDetails {
   mlsNumber: string;
 }
 
+export type VideoContentType = 'walkthrough' | 'drone' | '3d-tour' | 'listing' | 'other';
+
+// How a video was discovered; grounding metadata is the strongest evidence, regex hits in prose the weakest
+export type VideoDiscoverySource = 'grounding' | 'structured' | 'provider' | 'text';
+
+export type AvailabilityStatus = 'available' | 'unavailable' | 'unknown';
+
+// What kind of page a link points at, as labelled by services/linkClassifier.ts
+export type LinkType =
+  | 'video'
+  | 'short'
+  | '3d-tour'
+  | 'social-post'
+  | 'listing'
+  | 'channel'
+  | 'search-page'
+  | 'map'
+  | 'homepage'
+  | 'unrelated'
+  | 'invalid'
+  | 'unknown';
+
+// Result of comparing a video's thumbnail with the uploaded front/back photos
+export type VisualMatchVerdict = 'match' | 'mismatch' | 'unknown';
+
 export interface VideoSearchResult {
   title: string;
   uri: string;
   source: string;
   thumbnailUrl?: string; // Optional if we can't extract it
+  isGenerated?: boolean; // True for clips we produced ourselves (e.g. Veo) rather than found online
+  platform?: string; // e.g. "YouTube", "Vimeo", "Matterport" as reported by the model
+  contentType?: VideoContentType;
+  reason?: string; // Why the model believes this video belongs to the property
+  discoveredVia?: VideoDiscoverySource;
+  linkType?: LinkType;
+  linkReason?: string; // Why the link classifier kept this link
+  availability?: AvailabilityStatus;
+  lastCheckedAt?: number; // When `availability` was last confirmed
+  confidence?: number; // 0-100, see services/scoring.ts
+  confidenceReasons?: string[];
+  visualMatch?: VisualMatchVerdict; // Only set when photos were uploaded
+  visualMatchRationale?: string;
 }
 
 export interface SearchResponse {
@@ -26,21 +64,201 @@ export interface ImageFile {
   mimeType: string;
 }
 
+// An image as sent to the API server: only the bytes Gemini needs
+export type ImagePayload = Pick<ImageFile, 'base64' | 'mimeType'>;
+
+export type SearchStage = 'querying' | 'extracting' | 'verifying' | 'done';
+
+export interface SearchProgress {
+  stage: SearchStage;
+  message: string;
+  partial?: SearchResponse; // Results found so far, before later stages finish
+}
+
+export interface SearchOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: SearchProgress) => void;
+}
+
+export type VideoSearchProviderId = 'gemini' | 'youtube' | 'mock';
+
+export interface VideoSearchProvider {
+  id: VideoSearchProviderId;
+  name: string;
+  // False when the provider is missing credentials and should be skipped
+  isConfigured: () => boolean;
+  search: (
+    details: PropertyDetails,
+    frontImage: ImageFile | null,
+    backImage: ImageFile | null,
+    options?: SearchOptions
+  ) => Promise<SearchResponse>;
+}
+
+export type VideoAspectRatio = '16:9' | '9:16';
+export type VideoResolution = '720p' | '1080p';
+export type ListingVideoStyle = 'cinematic' | 'bright' | 'twilight' | 'aerial';
+
+export interface ListingVideoOptions {
+  aspectRatio: VideoAspectRatio;
+  resolution: VideoResolution;
+  style: ListingVideoStyle;
+}
+
+export interface SlideshowOptions {
+  aspectRatio: VideoAspectRatio;
+  secondsPerPhoto: number;
+  includeTitleCard: boolean;
+  audio?: File | null; // Optional soundtrack, looped or trimmed to the video length
+}
+
+// Where a submitted Veo generation stands. 'failed' means the operation itself finished
+// without a video; errors reaching the API are thrown instead.
+export type VideoOperationState =
+  | { state: 'running' }
+  | { state: 'done'; uri: string }
+  | { state: 'failed'; error: string };
+
+// Error body returned by the API server (server/apiServer.ts)
+export interface ApiErrorBody {
+  kind: string;
+  message: string;
+}
+
+// Lines of the API server's streamed search response, one JSON object per line
+export type SearchStreamEvent =
+  | { type: 'progress'; progress: SearchProgress }
+  | { type: 'result'; response: SearchResponse }
+  | { type: 'error'; error: ApiErrorBody };
+
+export type VideoJobKind = 'listing' | 'promo';
+
+export type VideoJobStatus = 'pending' | 'completed' | 'failed' | 'cancelled';
+
+// A started Veo generation. Through the API server it comes with a job token proving
+// which account started it; direct calls on the server have no need for one.
+export interface VideoOperation {
+  operationName: string;
+  jobToken?: string;
+}
+
+// A Veo generation tracked by operation name so it survives reloads
+export interface VideoJob {
+  id: string;
+  kind: VideoJobKind;
+  operationName: string;
+  jobToken?: string;
+  title: string;
+  details?: PropertyDetails; // Listing jobs: the property the clip belongs to
+  status: VideoJobStatus;
+  createdAt: number;
+  updatedAt: number;
+  result?: VideoSearchResult;
+  error?: string;
+}
+
+// Channels a listing video can be exported for, each with its own frame and length limit
+export type SocialPlatform = 'reels' | 'tiktok' | 'shorts' | 'feed' | 'mls';
+
+export type ExportAspectRatio = VideoAspectRatio | '1:1';
+
+export interface SocialExportOptions {
+  fit: 'crop' | 'pad'; // Crop to fill the frame, or fit the whole clip over a blurred backdrop
+  focusX: number; // 0..1, which part of the source to keep when cropping horizontally
+  captions: {
+    enabled: boolean;
+    address: string;
+    price?: string;
+  };
+}
+
+export interface ListingImages {
+  frontImage: ImagePayload | null;
+  backImage: ImagePayload | null;
+}
+
 export interface SerializableImage {
   base64: string;
   mimeType: string;
   name?: string;
 }
 
+// A photo kept in Cloud Storage instead of inside the saved search document
+export interface StoredImageRef {
+  path: string;
+  mimeType: string;
+  name?: string;
+  thumbnail?: string; // Small JPEG data URL, for lists
+}
+
 export interface SavedSearch {
   id?: string;
   userId: string;
   ownerEmail?: string;
   timestamp: number;
-  title?: string;
+  title?: string; // Stores fill in the street when it's missing
   propertyDetails: PropertyDetails;
   results: SearchResponse;
   sharedWith?: string[]; // Array of email addresses
+  // Inline photos: guest storage, and searches saved before Cloud Storage
   frontImage?: SerializableImage;
   backImage?: SerializableImage;
-}
\ No newline at end of file
+  // Photos in Cloud Storage; load them with SearchRepository.loadImages
+  frontImageRef?: StoredImageRef;
+  backImageRef?: StoredImageRef;
+  // Watchlist: re-run this search every `watchIntervalHours` and alert on changes
+  watched?: boolean;
+  watchIntervalHours?: number;
+  lastCheckedAt?: number;
+  nextCheckAt?: number;
+}
+
+export type SavedSearchScope = 'all' | 'owned' | 'shared';
+export type SavedSearchSort = 'newest' | 'oldest' | 'title';
+
+// What the Saved Searches list shows, and in which order
+export interface SavedSearchQuery {
+  userId: string;
+  email?: string | null; // To include searches shared with the user
+  scope: SavedSearchScope;
+  sort: SavedSearchSort;
+  text?: string;         // Every word must appear in the title, street, city or MLS number
+  city?: string;
+  state?: string;
+  from?: number;         // Saved at or after (ms)
+  to?: number;           // Saved at or before (ms)
+  hasVideos?: boolean;
+}
+
+export type BulkRowStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface BulkSearchRow {
+  id: string;
+  line: number; // Line in the uploaded file, for error messages
+  details: PropertyDetails;
+  status: BulkRowStatus;
+  response?: SearchResponse;
+  error?: string;
+  saved?: boolean;
+}
+
+// Outcome of re-running a saved search, compared video-by-video with what was stored
+export interface SearchDiff {
+  added: VideoSearchResult[];       // Found now, not in the saved search
+  disappeared: VideoSearchResult[]; // Saved, but no longer returned by the search
+  unavailable: VideoSearchResult[]; // Saved, and now reported as removed/private
+  unchanged: VideoSearchResult[];   // Saved and still found
+}
+
+export type WatchAlertKind = 'new-videos' | 'dead-videos';
+
+export interface WatchAlert {
+  id?: string;
+  userId: string;
+  searchId: string;
+  searchTitle: string;
+  kind: WatchAlertKind;
+  videos: { title: string; uri: string }[];
+  createdAt: number;
+  read: boolean;
+}